@@ -0,0 +1,73 @@
+import type { AnyMiddlewareArgs, Middleware } from "@slack/bolt";
+import { logger } from "../integrations/logger.js";
+import {
+  ACCESS_DENIED_TEXT,
+  checkAccess,
+  getAccessPolicy,
+  type AccessPolicy,
+} from "../services/access_policy.js";
+
+// The fields of a Slack request body that identify it. Each kind of request
+// carries a different subset.
+type RequestBody = {
+  type?: string;
+  event?: { type?: string; channel?: string; user?: string };
+  command?: string;
+  actions?: Array<{ action_id?: string }>;
+  view?: { callback_id?: string };
+  callback_id?: string;
+  channel_id?: string;
+  channel?: { id?: string };
+  user_id?: string;
+  user?: { id?: string };
+};
+
+// Who sent a Slack request and where, across events, commands, actions,
+// shortcuts and view submissions.
+export function getRequestIdentity(body: unknown) {
+  const payload: RequestBody =
+    body && typeof body === "object" ? (body as RequestBody) : {};
+  return {
+    type:
+      payload.event?.type ||
+      payload.command ||
+      payload.actions?.[0]?.action_id ||
+      payload.view?.callback_id ||
+      payload.callback_id ||
+      payload.type,
+    channelId:
+      payload.event?.channel || payload.channel_id || payload.channel?.id,
+    userId: payload.event?.user || payload.user_id || payload.user?.id,
+  };
+}
+
+// Drops requests from denied users and channels before any handler runs.
+// Interactive requests are still acknowledged, and the user is told why
+// where Slack offers a way to answer.
+export function enforceAccessPolicy(
+  policy: AccessPolicy = getAccessPolicy(),
+): Middleware<AnyMiddlewareArgs> {
+  return async (args) => {
+    const { channelId, userId } = getRequestIdentity(args.body);
+    const decision = checkAccess(policy, { channelId, userId });
+    if (decision.ok === true) {
+      await args.next();
+      return;
+    }
+    const log = "event" in args ? logger.debug : logger.info;
+    log("request denied by access policy", { reason: decision.reason });
+    if ("ack" in args && typeof args.ack === "function") await args.ack();
+    if ("respond" in args && typeof args.respond === "function") {
+      await args
+        .respond({
+          response_type: "ephemeral",
+          text: ACCESS_DENIED_TEXT[decision.reason],
+        })
+        .catch((e) =>
+          logger.warn("access denied notice failed", {
+            error: e?.data?.error || e?.message,
+          }),
+        );
+    }
+  };
+}
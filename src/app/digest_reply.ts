@@ -0,0 +1,93 @@
+import type { WebClient } from "@slack/web-api";
+import type { ModelOptions } from "../integrations/model_backend.js";
+import { buildPendingReplyBlocks } from "../integrations/slack_blocks.js";
+import { splitSlackText } from "../integrations/slack_split.js";
+import { createThrottledUpdater } from "../integrations/slack_updates.js";
+import { summarizeChannel } from "../services/digest.js";
+import {
+  awaitJobResult,
+  formatQueuePosition,
+  getJobScheduler,
+} from "../services/job_scheduler.js";
+
+// Posts a placeholder in the channel, runs the digest as a job and replaces
+// the placeholder with the result. Text that does not fit one message goes
+// into its thread. Used by /digest and by scheduled digests (no userId).
+export async function runDigestReply({
+  client,
+  channelId,
+  hours,
+  workdir,
+  modelOptions,
+  userId,
+  note,
+}: {
+  client: WebClient;
+  channelId: string;
+  hours: number;
+  workdir: string;
+  modelOptions?: ModelOptions;
+  userId?: string;
+  note?: string;
+}) {
+  const header = `📰 直近${hours}時間のダイジェストを作成中... :loading:`;
+  const placeholder = await client.chat.postMessage({
+    channel: channelId,
+    text: header,
+  });
+  if (!placeholder.ts) return;
+
+  let jobId: string | undefined;
+  const updater = createThrottledUpdater<{ status?: string }>({
+    update: async ({ status }) => {
+      const text = status ? `${header}\n_${status}_` : header;
+      await client.chat.update({
+        channel: channelId,
+        ts: placeholder.ts,
+        text,
+        blocks: buildPendingReplyBlocks({ text, jobId }),
+      });
+    },
+  });
+
+  const job = getJobScheduler().submit({
+    userId,
+    channelId,
+    onQueueUpdate: (position) =>
+      updater.push({ status: formatQueuePosition(position) }),
+    onStart: () => updater.push({}),
+    run: (signal) =>
+      summarizeChannel({
+        token: client.token,
+        channelId,
+        hours,
+        workdir,
+        signal,
+        modelOptions,
+      }),
+  });
+  jobId = job.id;
+
+  const result = await awaitJobResult(job.result);
+  // Drop pending status updates and wait for one in flight, so it cannot
+  // overwrite the result.
+  updater.cancel();
+  await updater.flush();
+  const requester = userId ? `<@${userId}> ` : "";
+  const [head, ...rest] = splitSlackText(
+    [note, `${requester}${result.text}`.trim()].filter(Boolean).join("\n"),
+  );
+  await client.chat.update({
+    channel: channelId,
+    ts: placeholder.ts,
+    text: head,
+    blocks: [],
+  });
+  for (const text of rest) {
+    await client.chat.postMessage({
+      channel: channelId,
+      thread_ts: placeholder.ts,
+      text,
+    });
+  }
+}
@@ -1,45 +1,359 @@
 import "dotenv/config";
-import { App } from "@slack/bolt";
+import {
+  App,
+  type BlockAction,
+  type ButtonAction,
+  type MessageShortcut,
+  type types,
+} from "@slack/bolt";
+import type { WebClient } from "@slack/web-api";
 import { stripBotMention } from "../integrations/slack_formatters.js";
-import { planHangout, formatSearchConditions } from "../services/hangout.js";
-import { respondMention } from "../services/mention.js";
+import {
+  buildHangoutPollBlocks,
+  buildHangoutShareModal,
+  formatHangoutDecision,
+  hangoutCommand,
+} from "../services/hangout.js";
+import {
+  attachPollMessage,
+  castVote,
+  createPoll,
+  decidePoll,
+  deletePoll,
+  getPoll,
+  type HangoutPoll,
+} from "../services/hangout_polls.js";
 import { buildSlackContext } from "../integrations/slack_api.js";
+import {
+  AGENT_CONFIG_VIEW,
+  ASK_MESSAGE_SHORTCUT,
+  ASK_MESSAGE_VIEW,
+  CANCEL_JOB_ACTION,
+  DEEPEN_ACTION,
+  HANGOUT_DECIDE_ACTION,
+  HANGOUT_SHARE_ACTION,
+  HANGOUT_SHARE_VIEW,
+  HANGOUT_VOTE_ACTION,
+  REGENERATE_ACTION,
+  STOP_REFINE_ACTION,
+} from "../integrations/slack_blocks.js";
+import { getJobScheduler } from "../services/job_scheduler.js";
+import { getSession, resetSession } from "../services/thread_sessions.js";
+import {
+  buildChannelConfigModal,
+  clearChannelSettings,
+  describeChannelSettings,
+  getChannelSettings,
+  parseChannelConfigSubmission,
+  resolveChannelConfig,
+  saveChannelSettings,
+} from "../services/channel_settings.js";
+import {
+  findMentionReply,
+  formatThinkingText,
+  runMentionReply,
+} from "./mention_reply.js";
+import {
+  logger,
+  newRequestId,
+  runWithLogContext,
+} from "../integrations/logger.js";
+import {
+  buildAskMessageModal,
+  parseAskMessageSubmission,
+  parseAskTarget,
+} from "../services/ask_message.js";
+import {
+  DIGEST_USAGE,
+  parseDigestCommand,
+} from "../services/digest.js";
+import {
+  describeDigestSubscription,
+  getDigestTimezone,
+  listDigestSubscriptions,
+  removeDigestSubscription,
+  saveDigestSubscription,
+  startDigestScheduler,
+} from "../services/digest_schedule.js";
+import { runDigestReply } from "./digest_reply.js";
+import { registerStructuredCommand } from "./structured_command_reply.js";
+import {
+  ACCESS_DENIED_TEXT,
+  WORKDIR_DENIED_TEXT,
+  canUseRepoWorkdir,
+  checkAccess,
+  getAccessPolicy,
+  getSandboxDir,
+} from "../services/access_policy.js";
+import {
+  describeRepos,
+  getRepoRegistry,
+  selectRepo,
+  toRepoContext,
+} from "../services/repo_registry.js";
+import { enforceAccessPolicy, getRequestIdentity } from "./access_control.js";
+import {
+  buildAppOptions,
+  dedupeRetriedEvents,
+  loadReceiverConfig,
+  startMonitoringServer,
+} from "./receiver.js";
+import { watchPromptTemplates } from "../services/prompt_templates.js";
 
-const app = new App({
-  token: process.env.SLACK_BOT_TOKEN,
-  appToken: process.env.SLACK_APP_TOKEN,
-  signingSecret: process.env.SLACK_SIGNING_SECRET,
-  socketMode: true,
+const receiverConfig = loadReceiverConfig();
+const app = new App(buildAppOptions(receiverConfig));
+
+const scheduler = getJobScheduler();
+const accessPolicy = getAccessPolicy();
+// Loaded up front so a broken REPOS_FILE stops startup.
+const repoRegistry = getRepoRegistry();
+
+// Channel settings plus the repository to run in, picked from a [keyword]
+// in text, the thread's earlier repo or the channel. Users who may not run
+// against a repository (and channels without one) get an empty sandbox.
+// slackText is text without the [keyword].
+function resolveRunConfig(
+  channelId: string,
+  userId?: string,
+  { text, threadRepoId }: { text?: string; threadRepoId?: string } = {},
+) {
+  const config = resolveChannelConfig(channelId);
+  const selected = selectRepo(repoRegistry, {
+    channelId,
+    text,
+    threadRepoId,
+    channelWorkdir: config.workdir,
+  });
+  const repo = canUseRepoWorkdir(accessPolicy, userId) ? selected.repo : null;
+  return {
+    ...config,
+    slackText: selected.text,
+    workdir: repo ? repo.path : getSandboxDir(),
+    repo: repo ? toRepoContext(repo) : null,
+    modelOptions: {
+      ...config.modelOptions,
+      sandbox: repo?.sandbox ?? "read-only",
+    },
+  };
+}
+
+const RESET_PATTERN = /^(reset|リセット|会話をリセット)$/i;
+const REPOS_PATTERN = /^(repos|リポジトリ一覧)$/i;
+// Session key for the top-level conversation of a DM; threads in a DM keep
+// their own sessions like in channels.
+const DM_SESSION_TS = "dm";
+
+// Every Slack request gets a request id; logs from its handler, the job it
+// queues and each model pass carry it.
+app.use(async ({ body, next }) => {
+  const { type, channelId, userId } = getRequestIdentity(body);
+  await runWithLogContext(
+    {
+      requestId: newRequestId(),
+      slack: type,
+      channel: channelId,
+      user: userId,
+    },
+    next,
+  );
 });
 
-const WORKDIR = process.env.CODEX_WORKDIR || process.cwd();
+app.use(dedupeRetriedEvents());
+app.use(enforceAccessPolicy(accessPolicy));
+
+async function notifyActionUser(
+  client: WebClient,
+  body: BlockAction,
+  text: string,
+) {
+  if (!body.channel?.id) return;
+  await client.chat.postEphemeral({
+    channel: body.channel.id,
+    user: body.user.id,
+    text,
+  });
+}
 
-app.command("/nomikai", async ({ command, ack, say }) => {
+app.action(CANCEL_JOB_ACTION, async ({ ack, body, action, client }) => {
   await ack();
+  const jobId = (action as ButtonAction).value;
+  const job = jobId ? scheduler.get(jobId) : null;
+  if (!job) return;
+  // Jobs without an owner (scheduled digests) cannot be cancelled.
+  if (job.userId !== body.user.id) {
+    await notifyActionUser(
+      client,
+      body as BlockAction,
+      "キャンセルできるのは依頼した本人だけです。",
+    );
+    return;
+  }
+  scheduler.cancel(jobId);
+});
 
-  const cond = formatSearchConditions(command.text || "");
-  await say(`🤔 <@${command.user_id}> 候補を考え中...\n${cond}`);
+// Reply buttons resolve their request from the message they are attached to.
+async function findReplyForAction(client: WebClient, body: BlockAction) {
+  const channelId = body.channel?.id;
+  const ts = body.message?.ts;
+  const reply = channelId && ts ? findMentionReply(channelId, ts) : null;
+  if (!reply) {
+    await notifyActionUser(
+      client,
+      body,
+      "元の依頼が見つかりませんでした。もう一度メンションしてください。",
+    );
+    return null;
+  }
+  if (reply.request.userId !== body.user.id) {
+    await notifyActionUser(
+      client,
+      body,
+      "この操作ができるのは依頼した本人だけです。",
+    );
+    return null;
+  }
+  return { reply, ts };
+}
 
-  const slackContext = await buildSlackContext({
-    token: process.env.SLACK_BOT_TOKEN,
-    channelId: command.channel_id,
-    userId: command.user_id,
+app.action(STOP_REFINE_ACTION, async ({ ack, body, client }) => {
+  await ack();
+  const found = await findReplyForAction(client, body as BlockAction);
+  found?.reply.stop?.abort();
+});
+
+for (const [actionId, mode] of [
+  [REGENERATE_ACTION, "answer"],
+  [DEEPEN_ACTION, "deepen"],
+] as const) {
+  app.action(actionId, async ({ ack, body, client }) => {
+    await ack();
+    const found = await findReplyForAction(client, body as BlockAction);
+    if (!found || found.reply.running) return;
+    await runMentionReply({
+      client,
+      request: found.reply.request,
+      replyTs: found.ts,
+      mode,
+    });
   });
+}
 
-  const result = await planHangout({
-    slackText: command.text || "",
-    workdir: process.env.PLANNER_REPO_DIR || process.cwd(),
-    slackContext,
+registerStructuredCommand(app, hangoutCommand, resolveRunConfig);
+
+async function refreshPollMessage(client: WebClient, poll: HangoutPoll) {
+  if (!poll.messageTs) return;
+  await client.chat.update({
+    channel: poll.channelId,
+    ts: poll.messageTs,
+    text: "🍻 飲み会候補の投票",
+    blocks: buildHangoutPollBlocks(poll),
   });
+}
+
+app.action(HANGOUT_VOTE_ACTION, async ({ ack, body, action, client }) => {
+  await ack();
+  const [pollId, rawIndex] = ((action as ButtonAction).value || "").split(":");
+  const poll = await castVote(pollId, body.user.id, Number(rawIndex));
+  if (!poll) {
+    await notifyActionUser(
+      client,
+      body as BlockAction,
+      "この投票はもう締め切られているか、見つかりませんでした。",
+    );
+    return;
+  }
+  await refreshPollMessage(client, poll);
+});
 
-  await say(result.text);
+app.action(HANGOUT_DECIDE_ACTION, async ({ ack, body, action, client }) => {
+  await ack();
+  const pollId = (action as ButtonAction).value || "";
+  const existing = getPoll(pollId);
+  if (!existing || existing.decidedIndex !== undefined) return;
+  if (existing.requesterId !== body.user.id) {
+    await notifyActionUser(
+      client,
+      body as BlockAction,
+      "「決定」できるのは /nomikai を実行した本人だけです。",
+    );
+    return;
+  }
+  const poll = await decidePoll(pollId);
+  if (!poll) return;
+  await refreshPollMessage(client, poll);
+  await client.chat.postMessage({
+    channel: poll.channelId,
+    text: formatHangoutDecision(poll),
+  });
+});
+
+app.action(HANGOUT_SHARE_ACTION, async ({ ack, body, action, client }) => {
+  await ack();
+  await client.views.open({
+    trigger_id: (body as BlockAction).trigger_id,
+    view: buildHangoutShareModal((action as ButtonAction).value || ""),
+  });
+});
+
+// Posts a copy of a DM poll to the chosen channel as a new poll. Posting
+// happens before the ack so a failure can be shown in the modal. The access
+// policy only saw the DM the modal came from, so the target channel is
+// checked here.
+app.view(HANGOUT_SHARE_VIEW, async ({ ack, view, body, client }) => {
+  const source = getPoll(view.private_metadata);
+  const channelId =
+    view.state.values.channel?.value?.selected_conversation || "";
+  if (!source || !channelId) {
+    await ack();
+    return;
+  }
+  if (!checkAccess(accessPolicy, { channelId }).ok) {
+    await ack({
+      response_action: "errors",
+      errors: { channel: ACCESS_DENIED_TEXT.channel },
+    });
+    return;
+  }
+  const poll = await createPoll({
+    channelId,
+    requesterId: body.user.id,
+    plan: source.plan,
+  });
+  let posted: Awaited<ReturnType<typeof client.chat.postMessage>>;
+  try {
+    posted = await client.chat.postMessage({
+      channel: channelId,
+      text: `🍻 <@${body.user.id}> さんから飲み会候補の投票です`,
+      blocks: buildHangoutPollBlocks(poll),
+    });
+  } catch (e) {
+    logger.warn("hangout share failed", {
+      error: e?.data?.error || e?.message,
+    });
+    await deletePoll(poll.id);
+    await ack({
+      response_action: "errors",
+      errors: {
+        channel:
+          "投稿できませんでした。ボットをチャンネルに招待してから再度お試しください。",
+      },
+    });
+    return;
+  }
+  await ack();
+  if (posted.ts) await attachPollMessage(poll.id, posted.ts);
+  await client.chat.postMessage({
+    channel: source.channelId,
+    text: `✅ <#${channelId}> に共有しました。`,
+  });
 });
 
 app.event("app_mention", async ({ event, say, client }) => {
   if (event.bot_id) return;
 
   const cleaned = stripBotMention(event.text);
-  if (!cleaned) {
+  const files = event.files || [];
+  if (!cleaned && !files.length) {
     await say({
       text: `<@${event.user}> 何かお手伝いしましょうか？`,
       thread_ts: event.thread_ts || event.ts,
@@ -47,6 +361,20 @@ app.event("app_mention", async ({ event, say, client }) => {
     return;
   }
 
+  const threadTs = event.thread_ts || event.ts;
+  if (RESET_PATTERN.test(cleaned)) {
+    await resetSession(event.channel, threadTs);
+    await say({
+      text: `<@${event.user}> 🧹 このスレッドの会話履歴をリセットしました。`,
+      thread_ts: threadTs,
+    });
+    return;
+  }
+  if (REPOS_PATTERN.test(cleaned)) {
+    await say({ text: describeRepos(repoRegistry), thread_ts: threadTs });
+    return;
+  }
+
   const slackContext = await buildSlackContext({
     token: process.env.SLACK_BOT_TOKEN,
     channelId: event.channel,
@@ -54,82 +382,369 @@ app.event("app_mention", async ({ event, say, client }) => {
     threadTs: event.thread_ts,
   });
 
-  const threadTs = event.thread_ts || event.ts;
   const thinking = await say({
-    text: `<@${event.user}> 思考中... :loading:`,
+    text: formatThinkingText(event.user),
     thread_ts: threadTs,
   });
-  const thinkingTs = thinking?.ts;
 
-  const mentionAliases = [
-    slackContext?.request_user?.display_name,
-    slackContext?.request_user?.real_name,
-    slackContext?.request_user?.name,
-  ].filter((v): v is string => Boolean(v && v.trim()));
-
-  const escapeRegExp = (value: string) =>
-    value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const channelConfig = resolveRunConfig(event.channel, event.user, {
+    text: cleaned,
+    threadRepoId: getSession(event.channel, threadTs)?.repoId,
+  });
+  await runMentionReply({
+    client,
+    replyTs: thinking?.ts,
+    request: {
+      slackText: channelConfig.slackText || cleaned || "（添付ファイルのみ）",
+      slackContext,
+      userId: event.user,
+      channelId: event.channel,
+      threadTs,
+      workdir: channelConfig.workdir,
+      repo: channelConfig.repo,
+      maxRefines: channelConfig.maxRefines,
+      modelOptions: channelConfig.modelOptions,
+      files,
+    },
+  });
+});
 
-  const stripLeadingSelfMention = (text: string) => {
-    let out = (text || "").trimStart();
-    const patterns = [
-      new RegExp(`^<@${escapeRegExp(event.user)}>[,:、]?(?:\\s|　)*`),
-      ...mentionAliases.map(
-        (alias) => new RegExp(`^@${escapeRegExp(alias)}[,:、]?(?:\\s|　)*`),
+// "Ask the agent about this message": the answer goes to the message's
+// thread through the same flow as a mention, with the message as
+// `selected_message` in the Slack context.
+app.shortcut<MessageShortcut>(
+  ASK_MESSAGE_SHORTCUT,
+  async ({ ack, shortcut, client }) => {
+    await ack();
+    const { message } = shortcut;
+    await client.views.open({
+      trigger_id: shortcut.trigger_id,
+      view: buildAskMessageModal(
+        {
+          channelId: shortcut.channel.id,
+          messageTs: message.ts,
+          threadTs: message.thread_ts || message.ts,
+        },
+        message.text || "",
       ),
-    ];
-    let changed = true;
-    while (changed) {
-      changed = false;
-      for (const pattern of patterns) {
-        if (pattern.test(out)) {
-          out = out.replace(pattern, "");
-          out = out.replace(/^(?:\s|　)+/, "");
-          changed = true;
-        }
-      }
-    }
-    return out;
-  };
+    });
+  },
+);
 
-  const formatReply = (text: string, pending: boolean) => {
-    const body = stripLeadingSelfMention(text);
-    const prefix = pending
-      ? `<@${event.user}> 思考中... :loading:`
-      : `<@${event.user}>`;
-    return `${prefix}\n${body}`.trim();
-  };
+app.view(ASK_MESSAGE_VIEW, async ({ ack, view, body, client }) => {
+  const { slackText, userText, errors } = parseAskMessageSubmission(
+    view.state.values,
+  );
+  if (Object.keys(errors).length) {
+    await ack({ response_action: "errors", errors });
+    return;
+  }
+  await ack();
+  const target = parseAskTarget(view.private_metadata);
+  if (!target) return;
+  const userId = body.user.id;
 
-  const updateMessage = async (text: string, pending = false) => {
-    if (thinkingTs) {
-      await client.chat.update({
-        channel: event.channel,
-        ts: thinkingTs,
-        text: formatReply(text, pending),
-      });
-    } else {
-      await say({ text: formatReply(text, pending), thread_ts: threadTs });
-    }
-  };
+  const slackContext = await buildSlackContext({
+    token: process.env.SLACK_BOT_TOKEN,
+    channelId: target.channelId,
+    userId,
+    threadTs: target.threadTs,
+    selectedTs: target.messageTs,
+  });
+
+  let thinking: Awaited<ReturnType<typeof client.chat.postMessage>>;
+  try {
+    thinking = await client.chat.postMessage({
+      channel: target.channelId,
+      thread_ts: target.threadTs,
+      text: formatThinkingText(userId),
+    });
+  } catch (e) {
+    logger.warn("ask message reply failed", {
+      error: e?.data?.error || e?.message,
+    });
+    // The modal is gone by now; tell the user in a DM.
+    await client.chat
+      .postMessage({
+        channel: userId,
+        text: "⚠️ スレッドに投稿できませんでした。ボットをチャンネルに招待してから再度お試しください。",
+      })
+      .catch(() => undefined);
+    return;
+  }
+
+  const channelConfig = resolveRunConfig(target.channelId, userId, {
+    threadRepoId: getSession(target.channelId, target.threadTs)?.repoId,
+  });
+  await runMentionReply({
+    client,
+    replyTs: thinking.ts,
+    request: {
+      slackText,
+      userText,
+      slackContext,
+      userId,
+      channelId: target.channelId,
+      threadTs: target.threadTs,
+      workdir: channelConfig.workdir,
+      repo: channelConfig.repo,
+      maxRefines: channelConfig.maxRefines,
+      modelOptions: channelConfig.modelOptions,
+    },
+  });
+});
+
+// Direct messages. Edits, deletions and bot posts (this bot's own replies
+// included) arrive as message events too; only plain user messages and file
+// shares are answered, so the bot never replies to itself.
+app.event("message", async ({ event, client, context }) => {
+  if (event.channel_type !== "im") return;
+  if (event.subtype !== undefined && event.subtype !== "file_share") return;
+  const message = event as
+    | types.GenericMessageEvent
+    | types.FileShareMessageEvent;
+  if (
+    ("bot_id" in message && message.bot_id) ||
+    message.user === context.botUserId
+  ) {
+    return;
+  }
+
+  const cleaned = stripBotMention(message.text || "");
+  const files = message.files || [];
+  if (!cleaned && !files.length) return;
+
+  // Top-level DMs are one ongoing conversation; the answer is posted
+  // top-level too.
+  const sessionTs = message.thread_ts || DM_SESSION_TS;
+  if (RESET_PATTERN.test(cleaned)) {
+    await resetSession(message.channel, sessionTs);
+    await client.chat.postMessage({
+      channel: message.channel,
+      thread_ts: message.thread_ts,
+      text: "🧹 会話履歴をリセットしました。",
+    });
+    return;
+  }
+  if (REPOS_PATTERN.test(cleaned)) {
+    await client.chat.postMessage({
+      channel: message.channel,
+      thread_ts: message.thread_ts,
+      text: describeRepos(repoRegistry),
+    });
+    return;
+  }
+
+  const slackContext = await buildSlackContext({
+    token: process.env.SLACK_BOT_TOKEN,
+    channelId: message.channel,
+    userId: message.user,
+    threadTs: message.thread_ts,
+  });
+
+  const thinking = await client.chat.postMessage({
+    channel: message.channel,
+    thread_ts: message.thread_ts,
+    text: formatThinkingText(message.user),
+  });
 
-  const result = await respondMention({
-    slackText: cleaned,
-    workdir: process.env.PLANNER_REPO_DIR || process.cwd(),
-    slackContext,
-    onProgress: async ({ stage, text, pending }) => {
-      if (stage === "draft") {
-        await updateMessage(text, pending);
-      }
-      if (stage === "refined") {
-        await updateMessage(text, pending);
-      }
+  const channelConfig = resolveRunConfig(message.channel, message.user, {
+    text: cleaned,
+    threadRepoId: getSession(message.channel, sessionTs)?.repoId,
+  });
+  await runMentionReply({
+    client,
+    replyTs: thinking.ts,
+    request: {
+      slackText: channelConfig.slackText || cleaned || "（添付ファイルのみ）",
+      slackContext,
+      userId: message.user,
+      channelId: message.channel,
+      threadTs: message.thread_ts,
+      sessionTs,
+      workdir: channelConfig.workdir,
+      repo: channelConfig.repo,
+      maxRefines: channelConfig.maxRefines,
+      modelOptions: channelConfig.modelOptions,
+      files,
     },
   });
+});
+
+app.command("/agent-config", async ({ command, ack, client, respond }) => {
+  await ack();
+  const arg = (command.text || "").trim().toLowerCase();
+  if (arg === "reset") {
+    await clearChannelSettings(command.channel_id);
+    await respond({
+      response_type: "ephemeral",
+      text: `⚙️ <#${command.channel_id}> の設定をリセットしました。`,
+    });
+    return;
+  }
+  if (arg === "repos") {
+    await respond({
+      response_type: "ephemeral",
+      text: describeRepos(repoRegistry),
+    });
+    return;
+  }
+  if (arg === "show") {
+    await respond({
+      response_type: "ephemeral",
+      text: `⚙️ <#${command.channel_id}> の設定\n${describeChannelSettings(
+        getChannelSettings(command.channel_id),
+      )}`,
+    });
+    return;
+  }
+  await client.views.open({
+    trigger_id: command.trigger_id,
+    view: buildChannelConfigModal(
+      command.channel_id,
+      getChannelSettings(command.channel_id),
+    ),
+  });
+});
+
+app.view(AGENT_CONFIG_VIEW, async ({ ack, view, body, client }) => {
+  const { settings, errors } = parseChannelConfigSubmission(view.state.values);
+  if (settings.workdir && !canUseRepoWorkdir(accessPolicy, body.user.id)) {
+    errors.workdir = WORKDIR_DENIED_TEXT;
+  }
+  if (Object.keys(errors).length) {
+    await ack({ response_action: "errors", errors });
+    return;
+  }
+  await ack();
+  const channelId = view.private_metadata;
+  await saveChannelSettings(channelId, {
+    ...settings,
+    updatedBy: body.user.id,
+    updatedAt: Date.now(),
+  });
+  await client.chat
+    .postEphemeral({
+      channel: channelId,
+      user: body.user.id,
+      text: `⚙️ <#${channelId}> の設定を保存しました。\n${describeChannelSettings(settings)}`,
+    })
+    .catch((e) =>
+      logger.warn("agent-config confirmation failed", {
+        error: e?.data?.error || e?.message,
+      }),
+    );
+});
 
-  if (!result.ok) {
-    await updateMessage(result.text, false);
+app.command("/digest", async ({ command, ack, client, respond }) => {
+  await ack();
+  const channelId = command.channel_id;
+  const parsed = parseDigestCommand(command.text || "");
+  const reply = (text: string) =>
+    respond({ response_type: "ephemeral", text });
+  switch (parsed.type) {
+    case "help":
+      await reply(DIGEST_USAGE);
+      return;
+    case "invalid":
+      await reply(`⚠️ ${parsed.error}\n${DIGEST_USAGE}`);
+      return;
+    case "list": {
+      // Only this channel's digest and the caller's own, so private
+      // channels are not revealed to everyone in the workspace.
+      const subscriptions = listDigestSubscriptions().filter(
+        (s) => s.channelId === channelId || s.createdBy === command.user_id,
+      );
+      await reply(
+        subscriptions.length
+          ? `📰 定期ダイジェスト（このチャンネルとあなたが登録したもの）\n${subscriptions
+              .map((s) => `• ${describeDigestSubscription(s)}`)
+              .join("\n")}`
+          : "📰 このチャンネルとあなたが登録した定期ダイジェストはありません。",
+      );
+      return;
+    }
+    case "unsubscribe":
+      await reply(
+        (await removeDigestSubscription(channelId))
+          ? `📰 <#${channelId}> の定期ダイジェストを解除しました。`
+          : `📰 <#${channelId}> に定期ダイジェストは登録されていません。`,
+      );
+      return;
+    case "subscribe": {
+      const subscription = {
+        channelId,
+        time: parsed.time,
+        timezone: getDigestTimezone(),
+        hours: parsed.hours,
+        createdBy: command.user_id,
+        createdAt: Date.now(),
+      };
+      await saveDigestSubscription(subscription);
+      await respond({
+        response_type: "in_channel",
+        text: `📰 <@${command.user_id}> が定期ダイジェストを登録しました: ${describeDigestSubscription(subscription)}`,
+      });
+      return;
+    }
+    case "run": {
+      const channelConfig = resolveRunConfig(channelId, command.user_id);
+      await runDigestReply({
+        client,
+        channelId,
+        hours: parsed.hours,
+        userId: command.user_id,
+        workdir: channelConfig.workdir,
+        modelOptions: channelConfig.modelOptions,
+      }).catch(async (e) => {
+        const error = e?.data?.error || e?.message;
+        logger.warn("digest reply failed", { error });
+        await reply(
+          error === "not_in_channel"
+            ? "⚠️ ボットがこのチャンネルに参加していません。招待してから再度お試しください。"
+            : "⚠️ ダイジェストを投稿できませんでした。",
+        );
+      });
+      return;
+    }
   }
 });
 
+// A broken template stops startup here; later edits are picked up live.
+watchPromptTemplates();
+startMonitoringServer(receiverConfig);
 await app.start();
-console.log("⚡️ slack bot is running (Socket Mode)");
+logger.info("⚡️ slack bot is running", {
+  mode: receiverConfig.mode,
+  port:
+    receiverConfig.mode === "http" ? receiverConfig.port || 3000 : undefined,
+});
+
+startDigestScheduler({
+  onDue: async ({ subscription, hours, lateNote }) => {
+    // The channel may have been denied after it subscribed.
+    if (!checkAccess(accessPolicy, { channelId: subscription.channelId }).ok) {
+      logger.info("scheduled digest skipped by access policy", {
+        channel: subscription.channelId,
+      });
+      return;
+    }
+    const channelConfig = resolveRunConfig(subscription.channelId);
+    return runWithLogContext(
+      {
+        requestId: newRequestId(),
+        slack: "scheduled_digest",
+        channel: subscription.channelId,
+      },
+      () =>
+        runDigestReply({
+          client: app.client,
+          channelId: subscription.channelId,
+          hours,
+          note: lateNote,
+          workdir: channelConfig.workdir,
+          modelOptions: channelConfig.modelOptions,
+        }),
+    );
+  },
+});
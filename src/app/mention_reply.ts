@@ -0,0 +1,427 @@
+import type { WebClient } from "@slack/web-api";
+import { type SlackContext } from "../integrations/slack_api.js";
+import type { ModelOptions } from "../integrations/model_backend.js";
+import { createThrottledUpdater } from "../integrations/slack_updates.js";
+import { splitSlackText } from "../integrations/slack_split.js";
+import { logger } from "../integrations/logger.js";
+import {
+  CANCELLED_TEXT,
+  isCancelledError,
+} from "../integrations/model_errors.js";
+import {
+  downloadSlackFiles,
+  formatSkippedAttachments,
+  type DownloadedAttachments,
+  type SlackFileRef,
+} from "../integrations/slack_files.js";
+import {
+  buildMentionReplyBlocks,
+  type ReplyPhase,
+} from "../integrations/slack_blocks.js";
+import {
+  deepenMention,
+  respondMention,
+  type ProgressPayload,
+} from "../services/mention.js";
+import {
+  awaitJobResult,
+  formatQueuePosition,
+  getJobScheduler,
+} from "../services/job_scheduler.js";
+import {
+  buildConversationHistory,
+  getSession,
+  recordTurn,
+} from "../services/thread_sessions.js";
+import type { RepoContext } from "../services/repo_registry.js";
+
+export type MentionRequest = {
+  slackText: string;
+  // Set when slackText is a canned request; see respondMention.
+  userText?: string;
+  slackContext: SlackContext | null;
+  userId: string;
+  channelId: string;
+  // Thread to answer in; unset for top-level replies in a DM.
+  threadTs?: string;
+  // Session to continue when it is not the thread's own (a DM keeps one
+  // session for its top-level conversation).
+  sessionTs?: string;
+  workdir: string;
+  // The repository in workdir, as told to the prompt.
+  repo?: RepoContext | null;
+  maxRefines?: number;
+  modelOptions?: ModelOptions;
+  // Files on the mention; downloaded again for every run (regenerate etc.).
+  files?: SlackFileRef[];
+};
+
+// Overflow of a long reply, posted as follow-up messages in the thread.
+type Continuation = { ts: string; text: string };
+
+export type MentionReply = {
+  request: MentionRequest;
+  text: string;
+  running: boolean;
+  stop?: AbortController;
+  continuations: Continuation[];
+};
+
+type ReplyState = {
+  text: string;
+  pending: boolean;
+  activity?: string;
+  refining?: boolean;
+};
+
+// Replies are tracked in memory so buttons can find the request they belong
+// to. Only the most recent ones are kept; older buttons report "not found".
+const MAX_TRACKED_REPLIES = 500;
+const replies = new Map<string, MentionReply>();
+
+const replyKey = (channelId: string, ts: string) => `${channelId}:${ts}`;
+
+export function findMentionReply(
+  channelId: string,
+  ts: string,
+): MentionReply | null {
+  return replies.get(replyKey(channelId, ts)) || null;
+}
+
+function rememberReply(key: string, reply: MentionReply) {
+  replies.delete(key);
+  replies.set(key, reply);
+  while (replies.size > MAX_TRACKED_REPLIES) {
+    replies.delete(replies.keys().next().value);
+  }
+}
+
+// "評価 62→78" while refinement goes on, best score of each pass.
+function formatScores(scores?: ProgressPayload["scores"]) {
+  if (!scores?.length) return undefined;
+  const byPass = new Map<number, number>();
+  for (const { pass, score } of scores) {
+    byPass.set(pass, Math.max(byPass.get(pass) ?? 0, score));
+  }
+  return `評価 ${[...byPass.values()].join("→")}`;
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function createSelfMentionStripper(request: MentionRequest) {
+  const mentionAliases = [
+    request.slackContext?.request_user?.display_name,
+    request.slackContext?.request_user?.real_name,
+    request.slackContext?.request_user?.name,
+  ].filter((v): v is string => Boolean(v && v.trim()));
+
+  const patterns = [
+    new RegExp(`^<@${escapeRegExp(request.userId)}>[,:、]?(?:\\s|　)*`),
+    ...mentionAliases.map(
+      (alias) => new RegExp(`^@${escapeRegExp(alias)}[,:、]?(?:\\s|　)*`),
+    ),
+  ];
+
+  return (text: string) => {
+    let out = (text || "").trimStart();
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const pattern of patterns) {
+        if (pattern.test(out)) {
+          out = out.replace(pattern, "");
+          out = out.replace(/^(?:\s|　)+/, "");
+          changed = true;
+        }
+      }
+    }
+    return out;
+  };
+}
+
+export function formatThinkingText(userId: string) {
+  return `<@${userId}> 思考中... :loading:`;
+}
+
+// Runs a mention job and keeps one Slack message (replyTs) in sync with it:
+// queue position, streamed text, refine passes and finally the answer with
+// regenerate / deepen buttons. "deepen" runs one extra pass on the previous
+// answer of the same message.
+export async function runMentionReply({
+  client,
+  request,
+  replyTs,
+  mode = "answer",
+}: {
+  client: WebClient;
+  request: MentionRequest;
+  replyTs?: string;
+  mode?: "answer" | "deepen";
+}) {
+  const key = replyTs ? replyKey(request.channelId, replyTs) : null;
+  const previous = key ? replies.get(key) : null;
+  const stop = new AbortController();
+  const reply: MentionReply = {
+    request,
+    text: previous?.text || "",
+    running: true,
+    stop,
+    continuations: previous?.continuations || [],
+  };
+  if (key) rememberReply(key, reply);
+
+  const stripLeadingSelfMention = createSelfMentionStripper(request);
+  const formatReply = (text: string, pending: boolean, activity?: string) => {
+    const body = stripLeadingSelfMention(text);
+    const status = activity ? ` _${activity}_` : "";
+    const prefix = pending
+      ? `${formatThinkingText(request.userId)}${status}`
+      : `<@${request.userId}>`;
+    return `${prefix}\n${body}`.trim();
+  };
+
+  let lastRendered = "";
+  let jobId: string | undefined;
+
+  // Keeps the follow-up messages in line with the latest chunks: changed ones
+  // are edited, missing ones posted and leftovers from a longer earlier pass
+  // deleted.
+  const syncContinuations = async (chunks: string[]) => {
+    const existing = reply.continuations;
+    const next: Continuation[] = [];
+    for (const [i, text] of chunks.entries()) {
+      const current = existing[i];
+      if (current) {
+        if (current.text !== text) {
+          await client.chat.update({
+            channel: request.channelId,
+            ts: current.ts,
+            text,
+          });
+        }
+        next.push({ ts: current.ts, text });
+        continue;
+      }
+      const posted = await client.chat.postMessage({
+        channel: request.channelId,
+        thread_ts: request.threadTs,
+        text,
+      });
+      if (posted.ts) next.push({ ts: posted.ts, text });
+      // Record progress so a failure halfway does not orphan messages.
+      reply.continuations = [...next, ...existing.slice(i + 1)];
+    }
+    for (const stale of existing.slice(chunks.length)) {
+      await client.chat
+        .delete({ channel: request.channelId, ts: stale.ts })
+        .catch((e) =>
+          logger.warn("continuation delete failed", {
+            error: e?.data?.error || e?.message,
+          }),
+        );
+    }
+    reply.continuations = next;
+  };
+
+  const updateMessage = async ({
+    text,
+    pending,
+    activity,
+    refining,
+  }: ReplyState) => {
+    const rendered = formatReply(text, pending, activity);
+    const phase: ReplyPhase = !pending
+      ? "done"
+      : refining
+        ? "refining"
+        : "working";
+    const renderKey = `${phase}\n${rendered}`;
+    if (renderKey === lastRendered) return;
+    lastRendered = renderKey;
+    const [head, ...rest] = splitSlackText(rendered);
+    if (replyTs) {
+      try {
+        await client.chat.update({
+          channel: request.channelId,
+          ts: replyTs,
+          text: head,
+          blocks: buildMentionReplyBlocks({ text: head, phase, jobId }),
+        });
+      } catch (e) {
+        if (pending) throw e;
+        // The final answer must not leave the message stuck in "thinking".
+        logger.warn("final reply update failed", {
+          error: e?.data?.error || e?.message,
+        });
+        await client.chat.update({
+          channel: request.channelId,
+          ts: replyTs,
+          text: `<@${request.userId}> ⚠️ 回答の表示に失敗しました。続きをスレッドに投稿します。`,
+          blocks: [],
+        });
+        await syncContinuations([head, ...rest]);
+        return;
+      }
+      await syncContinuations(rest);
+    } else if (!pending) {
+      for (const text of [head, ...rest]) {
+        await client.chat.postMessage({
+          channel: request.channelId,
+          text,
+          thread_ts: request.threadTs,
+        });
+      }
+    }
+  };
+
+  const updater = createThrottledUpdater<ReplyState>({
+    update: updateMessage,
+  });
+
+  const sessionTs = request.sessionTs || request.threadTs;
+  const session = getSession(request.channelId, sessionTs);
+  const history = buildConversationHistory(session, {
+    excludeReplyTs: replyTs,
+  });
+  const drafts: string[] = [];
+
+  const previousText = reply.text;
+  const onProgress = async ({
+    stage,
+    text,
+    pending,
+    activity,
+    scores,
+  }: ProgressPayload) => {
+    if (text) reply.text = text;
+    if (stage !== "streaming" && pending && text) drafts.push(text);
+    // The stop button only makes sense once there is an answer to keep.
+    const refining = mode === "answer" && Boolean(text);
+    if (stage === "streaming") {
+      updater.push({ text, pending, activity, refining });
+      return;
+    }
+    await updater.flush({
+      text,
+      pending,
+      refining,
+      activity: pending ? formatScores(scores) : undefined,
+    });
+  };
+
+  let skippedNote = "";
+  const scheduler = getJobScheduler();
+  const job = scheduler.submit({
+    userId: request.userId,
+    channelId: request.channelId,
+    onQueueUpdate: (position) =>
+      updater.push({
+        text: previousText,
+        pending: true,
+        activity: formatQueuePosition(position),
+      }),
+    onStart: () => updater.push({ text: previousText, pending: true }),
+    run: async (signal) => {
+      let attachments: DownloadedAttachments | null = null;
+      try {
+        attachments = await downloadSlackFiles({
+          client,
+          token: client.token,
+          files: request.files,
+          signal,
+        });
+        skippedNote = formatSkippedAttachments(attachments.skipped);
+        return mode === "deepen"
+          ? await deepenMention({
+              slackText: request.slackText,
+              userText: request.userText,
+              workdir: request.workdir,
+              slackContext: request.slackContext,
+              currentText: previousText,
+              signal,
+              onProgress,
+              history,
+              modelOptions: request.modelOptions,
+              attachments,
+              repo: request.repo,
+            })
+          : await respondMention({
+              slackText: request.slackText,
+              userText: request.userText,
+              workdir: request.workdir,
+              slackContext: request.slackContext,
+              signal,
+              stopSignal: stop.signal,
+              onProgress,
+              history,
+              // A thread switched to another repo starts a new backend
+              // session in the new checkout.
+              sessionId:
+                !session?.repoId || session.repoId === request.repo?.id
+                  ? session?.backendSessionId
+                  : undefined,
+              modelOptions: request.modelOptions,
+              maxRefines: request.maxRefines,
+              attachments,
+              repo: request.repo,
+            });
+      } catch (e) {
+        // respondMention/deepenMention report their own failures; this is
+        // for the attachment download before them.
+        if (signal.aborted || isCancelledError(e)) {
+          return { ok: false, text: CANCELLED_TEXT, cancelled: true };
+        }
+        logger.error("mention attachments failed", {
+          error: (e as Error)?.message,
+        });
+        return {
+          ok: false,
+          text: "⚠️ 添付ファイルを読み込めませんでした。もう一度試してください。",
+        };
+      } finally {
+        await attachments?.cleanup().catch((e) =>
+          logger.warn("attachment cleanup failed", {
+            error: (e as Error)?.message,
+          }),
+        );
+      }
+    },
+  });
+  jobId = job.id;
+
+  const result = await awaitJobResult(job.result);
+  // A failed regenerate/deepen keeps the previous answer and appends why.
+  const finalText =
+    result.ok || !previousText
+      ? result.text
+      : `${previousText}\n\n${result.text}`;
+  reply.text = result.ok || !previousText ? result.text : previousText;
+  reply.running = false;
+  reply.stop = undefined;
+
+  if (result.ok) {
+    await recordTurn({
+      channelId: request.channelId,
+      threadTs: sessionTs,
+      backendSessionId: "sessionId" in result ? result.sessionId : undefined,
+      repoId: request.repo?.id,
+      turn: {
+        userId: request.userId,
+        prompt: request.slackText,
+        answer: result.text,
+        drafts,
+        replyTs,
+      },
+    }).catch((e) =>
+      logger.warn("recordTurn failed", { error: (e as Error)?.message }),
+    );
+  }
+
+  // Always settle on the final text so a trailing activity update or a
+  // failed refine pass never leaves the message stuck in "thinking".
+  await updater.flush({
+    text: [finalText, skippedNote].filter(Boolean).join("\n\n"),
+    pending: false,
+  });
+}
@@ -0,0 +1,159 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import net from "node:net";
+import { after, before, test } from "node:test";
+import { App } from "@slack/bolt";
+import {
+  buildAppOptions,
+  createEventDeduper,
+  dedupeRetriedEvents,
+} from "./receiver.js";
+
+const SIGNING_SECRET = "test-signing-secret";
+const EVENTS_PATH = "/slack/events";
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on("error", reject);
+    server.listen(0, () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function sign(body: string, timestamp: number, secret = SIGNING_SECRET) {
+  const digest = createHmac("sha256", secret)
+    .update(`v0:${timestamp}:${body}`)
+    .digest("hex");
+  return `v0=${digest}`;
+}
+
+function mentionEvent(eventId: string) {
+  return JSON.stringify({
+    type: "event_callback",
+    team_id: "T1",
+    api_app_id: "A1",
+    event_id: eventId,
+    event_time: 1,
+    event: {
+      type: "app_mention",
+      user: "U1",
+      channel: "C1",
+      text: "<@B1> hello",
+      ts: "1.000001",
+    },
+  });
+}
+
+let app: App;
+let url: string;
+const handled: string[] = [];
+
+async function post(
+  body: string,
+  {
+    timestamp = Math.floor(Date.now() / 1000),
+    secret = SIGNING_SECRET,
+    headers = {},
+  }: {
+    timestamp?: number;
+    secret?: string;
+    headers?: Record<string, string>;
+  } = {},
+) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Slack-Request-Timestamp": String(timestamp),
+      "X-Slack-Signature": sign(body, timestamp, secret),
+      ...headers,
+    },
+    body,
+  });
+  await res.text();
+  return res.status;
+}
+
+// Bolt answers Events API requests before the handlers finish.
+async function waitForHandlers() {
+  await new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+before(async () => {
+  process.env.SLACK_BOT_TOKEN = "xoxb-test";
+  process.env.SLACK_SIGNING_SECRET = SIGNING_SECRET;
+  const port = await freePort();
+  app = new App({
+    ...buildAppOptions({ mode: "http", port, eventsPath: EVENTS_PATH }),
+    // Known bot ids, so Bolt does not call auth.test.
+    botId: "B1",
+    botUserId: "UB1",
+  });
+  app.use(dedupeRetriedEvents());
+  app.event("app_mention", async ({ body }) => {
+    handled.push((body as { event_id: string }).event_id);
+  });
+  await app.start();
+  url = `http://127.0.0.1:${port}${EVENTS_PATH}`;
+});
+
+after(async () => {
+  await app?.stop();
+});
+
+test("accepts a correctly signed request", async () => {
+  assert.equal(await post(mentionEvent("Ev-valid")), 200);
+  await waitForHandlers();
+  assert.ok(handled.includes("Ev-valid"));
+});
+
+test("rejects a request with a bad signature", async () => {
+  const status = await post(mentionEvent("Ev-bad"), { secret: "wrong" });
+  assert.equal(status, 401);
+  await waitForHandlers();
+  assert.ok(!handled.includes("Ev-bad"));
+});
+
+test("rejects a request with a stale timestamp", async () => {
+  const timestamp = Math.floor(Date.now() / 1000) - 10 * 60;
+  assert.equal(await post(mentionEvent("Ev-stale"), { timestamp }), 401);
+  await waitForHandlers();
+  assert.ok(!handled.includes("Ev-stale"));
+});
+
+test("drops a retried delivery of an event it already handled", async () => {
+  const body = mentionEvent("Ev-retry");
+  assert.equal(await post(body), 200);
+  const status = await post(body, {
+    headers: {
+      "X-Slack-Retry-Num": "1",
+      "X-Slack-Retry-Reason": "http_timeout",
+    },
+  });
+  assert.equal(status, 200);
+  await waitForHandlers();
+  assert.deepEqual(
+    handled.filter((id) => id === "Ev-retry"),
+    ["Ev-retry"],
+  );
+});
+
+test("event deduper forgets ids after the TTL", () => {
+  const deduper = createEventDeduper({ ttlMs: 1000 });
+  assert.equal(deduper.check("Ev1", 0), false);
+  assert.equal(deduper.check("Ev1", 500), true);
+  assert.equal(deduper.check("Ev1", 1501), false);
+  assert.equal(deduper.check("Ev1", 2000), true);
+});
+
+test("event deduper keeps at most maxEntries ids", () => {
+  const deduper = createEventDeduper({ maxEntries: 2 });
+  deduper.check("Ev1", 0);
+  deduper.check("Ev2", 0);
+  deduper.check("Ev3", 0);
+  assert.equal(deduper.check("Ev1", 0), false);
+  assert.equal(deduper.check("Ev3", 0), true);
+});
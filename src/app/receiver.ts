@@ -0,0 +1,155 @@
+import http from "node:http";
+import type {
+  AnyMiddlewareArgs,
+  AppOptions,
+  CustomRoute,
+  Middleware,
+} from "@slack/bolt";
+import { logger } from "../integrations/logger.js";
+import { writeMetrics } from "../integrations/metrics.js";
+import { getJobScheduler } from "../services/job_scheduler.js";
+
+export type SlackMode = "socket" | "http";
+
+export type ReceiverConfig = {
+  mode: SlackMode;
+  port?: number;
+  eventsPath: string;
+};
+
+export function loadReceiverConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): ReceiverConfig {
+  const mode = (env.SLACK_MODE || "socket").trim().toLowerCase();
+  if (mode !== "socket" && mode !== "http") {
+    throw new Error(`Unknown SLACK_MODE: ${mode}`);
+  }
+  const port = Number.parseInt(env.PORT || "", 10);
+  return {
+    mode,
+    port: Number.isFinite(port) && port > 0 ? port : undefined,
+    eventsPath: env.SLACK_EVENTS_PATH || "/slack/events",
+  };
+}
+
+const startedAt = Date.now();
+
+function monitoringRoutes(mode: SlackMode): CustomRoute[] {
+  return [
+    {
+      path: "/healthz",
+      method: ["GET"],
+      handler: (_req, res) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            status: "ok",
+            mode,
+            uptime_seconds: Math.round((Date.now() - startedAt) / 1000),
+            jobs: getJobScheduler().stats(),
+          }),
+        );
+      },
+    },
+    {
+      path: "/metrics",
+      method: ["GET"],
+      handler: (_req, res) => writeMetrics(res),
+    },
+  ];
+}
+
+// Bolt options for the configured mode. In HTTP mode Bolt's receiver checks
+// the signing secret on every request (and rejects stale timestamps) and
+// answers Events API requests as soon as they are acknowledged, so handlers
+// keep running after Slack got its 200. Health and metrics share the port.
+export function buildAppOptions(config: ReceiverConfig): AppOptions {
+  const base: AppOptions = {
+    token: process.env.SLACK_BOT_TOKEN,
+    signingSecret: process.env.SLACK_SIGNING_SECRET,
+  };
+  if (config.mode === "http") {
+    return {
+      ...base,
+      port: config.port || 3000,
+      endpoints: config.eventsPath,
+      customRoutes: monitoringRoutes("http"),
+    };
+  }
+  return {
+    ...base,
+    appToken: process.env.SLACK_APP_TOKEN,
+    socketMode: true,
+  };
+}
+
+// Socket Mode has no HTTP server of its own; health and metrics get a small
+// one when PORT is set.
+export function startMonitoringServer(config: ReceiverConfig) {
+  if (config.mode !== "socket" || !config.port) return null;
+  const routes = monitoringRoutes("socket");
+  const server = http.createServer((req, res) => {
+    const path = req.url?.split("?")[0];
+    const route = routes.find(
+      (r) => r.path === path && [r.method].flat().includes(req.method || ""),
+    );
+    if (route) {
+      route.handler(req, res);
+      return;
+    }
+    res.writeHead(404);
+    res.end();
+  });
+  server.on("error", (err) =>
+    logger.error("monitoring server failed", {
+      error: err.message,
+      port: config.port,
+    }),
+  );
+  server.listen(config.port, () =>
+    logger.info("monitoring server listening", { port: config.port }),
+  );
+  return server;
+}
+
+// Remembers recently seen event ids. Slack redelivers an event when it did
+// not see a timely 200 (x-slack-retry-num in HTTP mode, retry_attempt in
+// Socket Mode); the copy must not start a second Codex run.
+export function createEventDeduper({
+  ttlMs = 10 * 60 * 1000,
+  maxEntries = 5000,
+}: { ttlMs?: number; maxEntries?: number } = {}) {
+  const seen = new Map<string, number>();
+  return {
+    // Returns true when the id was already seen within the TTL.
+    check: (eventId: string, now = Date.now()) => {
+      for (const [id, at] of seen) {
+        if (now - at <= ttlMs) break;
+        seen.delete(id);
+      }
+      if (seen.has(eventId)) return true;
+      seen.set(eventId, now);
+      while (seen.size > maxEntries) {
+        seen.delete(seen.keys().next().value);
+      }
+      return false;
+    },
+  };
+}
+
+export function dedupeRetriedEvents(
+  deduper = createEventDeduper(),
+): Middleware<AnyMiddlewareArgs> {
+  return async ({ body, context, next }) => {
+    const eventId = (body as { event_id?: string }).event_id;
+    if (eventId && deduper.check(eventId)) {
+      logger.info("duplicate slack event skipped", {
+        eventId,
+        retryNum: context.retryNum,
+        retryReason: context.retryReason,
+      });
+      return;
+    }
+    await next();
+  };
+}
@@ -0,0 +1,121 @@
+import type { App } from "@slack/bolt";
+import type { ModelOptions } from "../integrations/model_backend.js";
+import { logger } from "../integrations/logger.js";
+import { buildSlackContext } from "../integrations/slack_api.js";
+import { buildPendingReplyBlocks } from "../integrations/slack_blocks.js";
+import { createThrottledUpdater } from "../integrations/slack_updates.js";
+import {
+  awaitJobResult,
+  formatQueuePosition,
+  getJobScheduler,
+} from "../services/job_scheduler.js";
+import {
+  runStructuredCommand,
+  type StructuredCommand,
+} from "../services/structured_command.js";
+
+type RunConfig = { workdir: string; modelOptions?: ModelOptions };
+
+// Registers a structured command as a slash command: acks, posts the
+// "考え中" message with queue updates, runs the command as a job and posts
+// its result (or error) in the channel.
+export function registerStructuredCommand<Args, Output>(
+  app: App,
+  command: StructuredCommand<Args, Output>,
+  resolveRunConfig: (channelId: string, userId: string) => RunConfig,
+) {
+  app.command(command.name, async ({ command: slash, ack, say, client }) => {
+    await ack();
+
+    const slackText = slash.text || "";
+    const args = command.parseArgs(slackText);
+    const header = [
+      `🤔 <@${slash.user_id}> ${command.thinkingText}...`,
+      command.describeArgs?.(args),
+    ]
+      .filter(Boolean)
+      .join("\n");
+    const thinking = await say(header);
+
+    let jobId: string | undefined;
+    const updater = createThrottledUpdater<{
+      status?: string;
+      done?: boolean;
+    }>({
+      update: async ({ status, done }) => {
+        if (!thinking?.ts) return;
+        const text = status ? `${header}\n_${status}_` : header;
+        await client.chat.update({
+          channel: slash.channel_id,
+          ts: thinking.ts,
+          text,
+          blocks: buildPendingReplyBlocks({
+            text,
+            jobId: done ? undefined : jobId,
+          }),
+        });
+      },
+    });
+
+    const slackContext = await buildSlackContext({
+      token: process.env.SLACK_BOT_TOKEN,
+      channelId: slash.channel_id,
+      userId: slash.user_id,
+    });
+
+    const runConfig = resolveRunConfig(slash.channel_id, slash.user_id);
+    const job = getJobScheduler().submit({
+      userId: slash.user_id,
+      channelId: slash.channel_id,
+      onQueueUpdate: (position) =>
+        updater.push({ status: formatQueuePosition(position) }),
+      onStart: () => updater.push({}),
+      run: (signal) =>
+        runStructuredCommand({
+          command,
+          args,
+          slackText,
+          context: { channelId: slash.channel_id, userId: slash.user_id },
+          workdir: runConfig.workdir,
+          slackContext,
+          signal,
+          modelOptions: runConfig.modelOptions,
+        }),
+    });
+    jobId = job.id;
+
+    // The cancel button goes away even if the job itself failed.
+    const result = await awaitJobResult(job.result).finally(() =>
+      updater.flush({ done: true }),
+    );
+    let posted: Awaited<ReturnType<typeof say>>;
+    try {
+      posted =
+        result.ok === false
+          ? await say(result.text)
+          : await say({ text: result.text, blocks: result.blocks });
+    } catch (e) {
+      // E.g. rejected blocks or the bot was removed from the channel.
+      logger.warn("structured command reply failed", {
+        command: command.name,
+        error: e?.data?.error || e?.message,
+      });
+      await say(
+        `<@${slash.user_id}> ⚠️ 結果の投稿に失敗しました。もう一度試してください。`,
+      ).catch((err) =>
+        logger.warn("structured command error reply failed", {
+          command: command.name,
+          error: err?.data?.error || err?.message,
+        }),
+      );
+      return;
+    }
+    if (result.ok === false || !posted?.ts) return;
+    await result.onPosted?.(posted.ts).catch((e) =>
+      logger.warn("structured command onPosted failed", {
+        command: command.name,
+        error: e?.message,
+      }),
+    );
+  });
+}
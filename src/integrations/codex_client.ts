@@ -1,73 +1,206 @@
-import { spawn } from "node:child_process";
+import { spawn, type ChildProcess } from "node:child_process";
+import { createCodexEventReader } from "./codex_events.js";
+import { metrics } from "./metrics.js";
+import {
+  classifyCodexFailure,
+  createCancelledError,
+  createModelError,
+  type ModelError,
+} from "./model_errors.js";
+import type {
+  CodexBackendConfig,
+  ModelBackend,
+  ModelEvent,
+  RepoSandbox,
+} from "./model_backend.js";
 
 export type ExecResult = {
   stdout: string;
   stderr: string;
+  sessionId?: string;
 };
 
-export type ExecError = Error & {
-  stdout?: string;
-  stderr?: string;
+const KILL_GRACE_MS = 5000;
+
+// codex runs in its own process group so the shells and tools it spawns are
+// terminated along with it.
+function killProcessTree(child: ChildProcess) {
+  const signalGroup = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-child.pid, signal);
+    } catch {
+      child.kill(signal);
+    }
+  };
+  signalGroup("SIGTERM");
+  const timer = setTimeout(() => signalGroup("SIGKILL"), KILL_GRACE_MS);
+  timer.unref();
+  child.once("close", () => clearTimeout(timer));
+}
+
+export type CodexOptions = {
+  model?: string;
+  reasoningEffort?: string;
+  webSearch?: boolean;
+  sandbox?: RepoSandbox;
+  // Continue an earlier `codex exec` session instead of starting fresh.
+  resumeSessionId?: string;
+  imagePaths?: string[];
 };
 
+function buildCodexArgs(prompt: string, options: CodexOptions): string[] {
+  const args = ["exec", "--skip-git-repo-check", "--json"];
+  // Always explicit, so a changed Codex default never grants writes.
+  args.push("--sandbox", options.sandbox || "read-only");
+  if (options.webSearch === false) {
+    args.push("-c", "features.web_search_request=false");
+  }
+  if (options.model) {
+    args.push("-c", `model="${options.model}"`);
+  }
+  if (options.reasoningEffort) {
+    args.push("-c", `reasoning.effort="${options.reasoningEffort}"`);
+  }
+  // "--image=a,b" rather than "-i a b": the flag takes several values and
+  // would otherwise swallow the prompt.
+  if (options.imagePaths?.length) {
+    args.push(`--image=${options.imagePaths.join(",")}`);
+  }
+  if (options.resumeSessionId) {
+    args.push("resume", options.resumeSessionId);
+  }
+  args.push(prompt);
+  return args;
+}
+
 export async function runCodexExec({
   prompt,
   cwd,
   timeoutMs = 180000,
+  options = {},
+  onEvent,
+  signal,
 }: {
   prompt: string;
   cwd: string;
   timeoutMs?: number;
+  options?: CodexOptions;
+  onEvent?: (event: ModelEvent) => void;
+  signal?: AbortSignal;
 }): Promise<ExecResult> {
+  if (signal?.aborted) throw createCancelledError();
   return await new Promise<ExecResult>((resolve, reject) => {
-    const args = ["exec", "--skip-git-repo-check"];
-    const webSearch = process.env.CODEX_WEB_SEARCH;
-    if (webSearch === "0" || webSearch === "false") {
-      args.push("-c", "features.web_search_request=false");
-    }
-    if (process.env.CODEX_MODEL) {
-      args.push("-c", `model="${process.env.CODEX_MODEL}"`);
-    }
-    if (process.env.CODEX_REASONING_EFFORT) {
-      args.push("-c", `reasoning.effort="${process.env.CODEX_REASONING_EFFORT}"`);
-    }
-    args.push(prompt);
+    const args = buildCodexArgs(prompt, options);
     const child = spawn("codex", args, {
       cwd,
       env: {
         ...process.env,
       },
       stdio: ["ignore", "pipe", "pipe"],
+      detached: true,
     });
 
-    let stdout = "";
+    let failure: ModelError | null = null;
+    const onAbort = () => {
+      failure = createCancelledError();
+      killProcessTree(child);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    // stdout is a JSONL event stream; the reader turns it into model events
+    // and keeps the last agent message as the final answer.
+    const reader = createCodexEventReader(onEvent);
     let stderr = "";
 
-    child.stdout.on("data", (d) => (stdout += d.toString("utf-8")));
+    child.stdout.setEncoding("utf-8");
+    child.stdout.on("data", (d: string) => reader.push(d));
     child.stderr.on("data", (d) => (stderr += d.toString("utf-8")));
 
     const timer = setTimeout(() => {
-      child.kill("SIGKILL");
-      reject(new Error(`codex exec timed out after ${timeoutMs}ms`));
+      failure = createModelError(
+        "timeout",
+        `codex exec timed out after ${timeoutMs}ms`,
+      );
+      killProcessTree(child);
     }, timeoutMs);
 
-    child.on("error", (err) => {
+    child.on("error", (err: NodeJS.ErrnoException) => {
       clearTimeout(timer);
-      reject(err);
+      signal?.removeEventListener("abort", onAbort);
+      reject(
+        err.code === "ENOENT"
+          ? createModelError("not_installed", `spawn codex: ${err.message}`)
+          : createModelError("model_error", err.message),
+      );
     });
 
-    child.on("close", (code) => {
+    // Settle only once the process has actually exited, so a cancelled or
+    // timed-out job never frees its scheduler slot while codex still runs.
+    child.on("close", (code, exitSignal) => {
       clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      metrics.codexExits.inc({ code: code ?? exitSignal ?? "unknown" });
+      if (failure) {
+        reject(failure);
+        return;
+      }
+      reader.end();
+      const stdout = reader.finalText();
+      const eventErrors = reader.errors();
+      if (eventErrors.length) {
+        stderr = [stderr, ...eventErrors].filter(Boolean).join("\n");
+      }
+      if (code === null) {
+        reject(
+          createModelError("killed", `codex exec was killed by ${exitSignal}`, {
+            stdout,
+            stderr,
+          }),
+        );
+        return;
+      }
       if (code !== 0) {
-        const e: ExecError = new Error(
-          `Codex command failed with exit code: ${code}`
+        reject(
+          createModelError(
+            classifyCodexFailure(stderr),
+            `Codex command failed with exit code: ${code}`,
+            { stdout, stderr, exitCode: code },
+          ),
         );
-        e.stdout = stdout;
-        e.stderr = stderr;
-        reject(e);
         return;
       }
-      resolve({ stdout, stderr });
+      resolve({ stdout, stderr, sessionId: reader.sessionId() });
     });
   });
 }
+
+export function createCodexBackend(config: CodexBackendConfig): ModelBackend {
+  return {
+    name: "codex",
+    run: async (request) => {
+      const { prompt, cwd, timeoutMs, onEvent, signal, sessionId, images } =
+        request;
+      const overrides = request.options || {};
+      const result = await runCodexExec({
+        prompt,
+        cwd,
+        timeoutMs,
+        onEvent,
+        signal,
+        options: {
+          model: overrides.model ?? config.model,
+          reasoningEffort: overrides.reasoningEffort ?? config.reasoningEffort,
+          webSearch: overrides.webSearch ?? config.webSearch,
+          sandbox: overrides.sandbox,
+          resumeSessionId: sessionId,
+          imagePaths: images?.map((image) => image.path),
+        },
+      });
+      return {
+        text: result.stdout,
+        stderr: result.stderr,
+        sessionId: result.sessionId,
+      };
+    },
+  };
+}
@@ -0,0 +1,183 @@
+import type { ModelEvent } from "./model_backend.js";
+
+// Incremental reader for `codex exec --json` output. Understands both the
+// item-based event stream (`item.started` / `item.completed`) and the older
+// `{ msg: { type } }` envelope so either CLI generation can be streamed.
+export type CodexEventReader = {
+  push: (chunk: string) => void;
+  end: () => void;
+  finalText: () => string;
+  sessionId: () => string | undefined;
+  errors: () => string[];
+};
+
+type Emit = (event: ModelEvent) => void;
+
+// The parts of the CLI's JSON lines we read. Everything is optional: the
+// output is not ours, and fields we do not know are ignored.
+type CodexItem = {
+  type?: string;
+  text?: string;
+  message?: string;
+  query?: string;
+  command?: string;
+  tool?: string;
+};
+
+type LegacyMessage = {
+  type?: string;
+  session_id?: string;
+  delta?: string;
+  message?: string;
+  query?: string;
+  command?: string | string[];
+  invocation?: { tool?: string };
+};
+
+type CodexEvent = {
+  type?: string;
+  msg?: LegacyMessage;
+  thread_id?: string;
+  item?: CodexItem;
+  error?: { message?: string };
+  message?: string;
+};
+
+const TOOL_ITEM_TYPES: Record<string, ModelEvent & { type: "tool" }> = {
+  web_search: { type: "tool", tool: "web_search" },
+  command_execution: { type: "tool", tool: "command" },
+  mcp_tool_call: { type: "tool", tool: "mcp_tool" },
+  file_change: { type: "tool", tool: "file_change" },
+};
+
+function toolDetail(item: CodexItem): string | undefined {
+  return item?.query || item?.command || item?.tool || undefined;
+}
+
+export function createCodexEventReader(emit?: Emit): CodexEventReader {
+  let buffer = "";
+  let lastMessage = "";
+  let streaming = "";
+  let sessionId: string | undefined;
+  const errors: string[] = [];
+  const plainLines: string[] = [];
+
+  const setText = (text: string) => {
+    lastMessage = text;
+    emit?.({ type: "text", text });
+  };
+
+  const handleItem = (type: string, item: CodexItem | undefined) => {
+    if (!item) return;
+    if (item.type === "agent_message" && typeof item.text === "string") {
+      if (item.text) setText(item.text);
+      return;
+    }
+    if (item.type === "error" && item.message) {
+      errors.push(item.message);
+      return;
+    }
+    const tool = TOOL_ITEM_TYPES[item.type];
+    if (tool && type === "item.started") {
+      emit?.({ ...tool, detail: toolDetail(item) });
+    }
+  };
+
+  const handleLegacy = (msg: LegacyMessage) => {
+    switch (msg?.type) {
+      case "session_configured":
+        sessionId = msg.session_id || sessionId;
+        return;
+      case "agent_message_delta":
+        streaming += msg.delta || "";
+        setText(streaming);
+        return;
+      case "agent_message":
+        streaming = "";
+        if (msg.message) setText(msg.message);
+        return;
+      case "web_search_begin":
+        emit?.({ type: "tool", tool: "web_search", detail: msg.query });
+        return;
+      case "exec_command_begin":
+        emit?.({
+          type: "tool",
+          tool: "command",
+          detail: Array.isArray(msg.command)
+            ? msg.command.join(" ")
+            : msg.command,
+        });
+        return;
+      case "mcp_tool_call_begin":
+        emit?.({
+          type: "tool",
+          tool: "mcp_tool",
+          detail: msg.invocation?.tool,
+        });
+        return;
+      case "error":
+        if (msg.message) errors.push(msg.message);
+        return;
+      default:
+        return;
+    }
+  };
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      parsed = null;
+    }
+    // A plain answer line may happen to be valid JSON, e.g. "42".
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      plainLines.push(line);
+      return;
+    }
+    const event = parsed as CodexEvent;
+    if (event.msg) {
+      handleLegacy(event.msg);
+      return;
+    }
+    switch (event.type) {
+      case "thread.started":
+        sessionId = event.thread_id || sessionId;
+        return;
+      case "item.started":
+      case "item.updated":
+      case "item.completed":
+        handleItem(event.type, event.item);
+        return;
+      case "turn.failed":
+        if (event.error?.message) errors.push(event.error.message);
+        return;
+      case "error":
+        if (event.message) errors.push(event.message);
+        return;
+      default:
+        return;
+    }
+  };
+
+  return {
+    push: (chunk) => {
+      buffer += chunk;
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        handleLine(buffer.slice(0, newline));
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf("\n");
+      }
+    },
+    end: () => {
+      if (buffer) handleLine(buffer);
+      buffer = "";
+    },
+    finalText: () => lastMessage || plainLines.join("\n"),
+    sessionId: () => sessionId,
+    errors: () => [...errors],
+  };
+}
@@ -0,0 +1,65 @@
+import { readFileSync } from "node:fs";
+import {
+  createCancelledError,
+  createModelError,
+} from "./model_errors.js";
+import type {
+  FakeBackendConfig,
+  FakeResponse,
+  ModelBackend,
+} from "./model_backend.js";
+
+function loadScript(config: FakeBackendConfig): FakeResponse[] {
+  if (config.responses?.length) return config.responses;
+  if (!config.scriptPath) return [""];
+  const parsed = JSON.parse(readFileSync(config.scriptPath, "utf-8"));
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error(
+      `Fake backend script must be a non-empty JSON array: ${config.scriptPath}`,
+    );
+  }
+  return parsed;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(createCancelledError());
+      },
+      { once: true },
+    );
+  });
+}
+
+// Replays scripted responses in order; the last entry repeats once the
+// script runs out so long refine loops still get an answer.
+export function createFakeBackend(config: FakeBackendConfig): ModelBackend {
+  const script = loadScript(config);
+  let index = 0;
+  return {
+    name: "fake",
+    run: async ({ onEvent, signal }) => {
+      if (signal?.aborted) throw createCancelledError();
+      const entry = script[Math.min(index, script.length - 1)];
+      index += 1;
+      if (typeof entry === "string") {
+        if (entry) onEvent?.({ type: "text", text: entry });
+        return { text: entry };
+      }
+      if (entry.delayMs) {
+        await sleep(entry.delayMs, signal);
+      }
+      if (entry.error) {
+        throw createModelError(entry.errorKind || "model_error", entry.error, {
+          stderr: entry.stderr,
+        });
+      }
+      if (entry.text) onEvent?.({ type: "text", text: entry.text });
+      return { text: entry.text || "", stderr: entry.stderr };
+    },
+  };
+}
@@ -0,0 +1,179 @@
+import { readFile } from "node:fs/promises";
+import {
+  classifyHttpStatus,
+  createCancelledError,
+  createModelError,
+} from "./model_errors.js";
+import type {
+  HttpBackendConfig,
+  ModelBackend,
+  ModelEvent,
+  ModelImage,
+} from "./model_backend.js";
+
+type ChatCompletionResponse = {
+  choices?: Array<{
+    message?: { content?: string | null };
+  }>;
+};
+
+type ChatCompletionChunk = {
+  choices?: Array<{
+    delta?: { content?: string | null };
+  }>;
+};
+
+async function readEventStream(
+  res: Response,
+  onEvent: (event: ModelEvent) => void,
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) return;
+    const data = trimmed.slice(5).trim();
+    if (!data || data === "[DONE]") return;
+    const chunk = JSON.parse(data) as ChatCompletionChunk;
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onEvent({ type: "text", text });
+    }
+  };
+  for await (const part of res.body as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(part, { stream: true });
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      handleLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+    }
+  }
+  handleLine(buffer + decoder.decode());
+  return text;
+}
+
+// Images are inlined as data URLs (OpenAI-style content parts).
+async function buildUserContent(prompt: string, images?: ModelImage[]) {
+  if (!images?.length) return prompt;
+  const parts: Array<Record<string, unknown>> = [
+    { type: "text", text: prompt },
+  ];
+  for (const image of images) {
+    const data = await readFile(image.path);
+    parts.push({
+      type: "image_url",
+      image_url: {
+        url: `data:${image.mimeType};base64,${data.toString("base64")}`,
+      },
+    });
+  }
+  return parts;
+}
+
+export async function runChatCompletion({
+  config,
+  prompt,
+  images,
+  timeoutMs = 180000,
+  onEvent,
+  signal,
+}: {
+  config: HttpBackendConfig;
+  prompt: string;
+  images?: ModelImage[];
+  timeoutMs?: number;
+  onEvent?: (event: ModelEvent) => void;
+  signal?: AbortSignal;
+}): Promise<string> {
+  const url = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+  const body: Record<string, unknown> = {
+    messages: [
+      { role: "user", content: await buildUserContent(prompt, images) },
+    ],
+  };
+  if (config.model) {
+    body.model = config.model;
+  }
+  if (config.reasoningEffort) {
+    body.reasoning_effort = config.reasoningEffort;
+  }
+  if (onEvent) {
+    body.stream = true;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: signal
+        ? AbortSignal.any([controller.signal, signal])
+        : controller.signal,
+    });
+    if (!res.ok) {
+      const retryAfter = Number(res.headers.get("retry-after"));
+      throw createModelError(
+        classifyHttpStatus(res.status),
+        `Model request failed with status: ${res.status}`,
+        {
+          stderr: await res.text(),
+          retryAfterMs:
+            Number.isFinite(retryAfter) && retryAfter > 0
+              ? retryAfter * 1000
+              : undefined,
+        },
+      );
+    }
+    if (onEvent) {
+      return await readEventStream(res, onEvent);
+    }
+    const raw = await res.text();
+    const parsed = JSON.parse(raw) as ChatCompletionResponse;
+    return parsed.choices?.[0]?.message?.content || "";
+  } catch (err) {
+    if (signal?.aborted) {
+      throw createCancelledError();
+    }
+    if (controller.signal.aborted) {
+      throw createModelError(
+        "timeout",
+        `model request timed out after ${timeoutMs}ms`,
+      );
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function createHttpBackend(config: HttpBackendConfig): ModelBackend {
+  return {
+    name: "http",
+    run: async ({ prompt, images, timeoutMs, onEvent, signal, options }) => {
+      const text = await runChatCompletion({
+        config: {
+          ...config,
+          model: options?.model ?? config.model,
+          reasoningEffort: options?.reasoningEffort ?? config.reasoningEffort,
+        },
+        prompt,
+        images,
+        timeoutMs,
+        onEvent,
+        signal,
+      });
+      return { text };
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { mkdirSync, readFileSync } from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "./logger.js";
+
+export type JsonStore<T> = {
+  read: () => T;
+  update: (mutate: (data: T) => void) => Promise<void>;
+};
+
+export function getDataDir() {
+  return path.resolve(process.env.DATA_DIR || "data");
+}
+
+// Small persistent state (polls, sessions, settings) lives in one JSON file
+// per store under DATA_DIR. Reads are served from memory; writes are
+// serialized and go through a temp file + rename so a crash never leaves a
+// half-written file behind.
+export function createJsonStore<T>(
+  name: string,
+  fallback: () => T,
+): JsonStore<T> {
+  const filePath = path.join(getDataDir(), `${name}.json`);
+  let data: T | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const load = (): T => {
+    if (data) return data;
+    try {
+      data = JSON.parse(readFileSync(filePath, "utf-8")) as T;
+    } catch (e) {
+      if (e?.code !== "ENOENT") {
+        logger.warn("json store load failed", {
+          filePath,
+          error: e?.message,
+        });
+      }
+      data = fallback();
+    }
+    return data;
+  };
+
+  const save = async () => {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(data, null, 2), "utf-8");
+    await rename(tmpPath, filePath);
+  };
+
+  return {
+    read: load,
+    update: async (mutate) => {
+      mutate(load());
+      writing = writing.then(save, save);
+      await writing;
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+// One JSON object per line. Fields bound with runWithLogContext (request id,
+// channel, user) are added to every line logged inside that call, including
+// from queued jobs and model passes it starts.
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const storage = new AsyncLocalStorage<LogFields>();
+
+function getMinLevel(): number {
+  const level = (process.env.LOG_LEVEL || "info").toLowerCase() as LogLevel;
+  return LEVELS[level] ?? LEVELS.info;
+}
+
+export function newRequestId() {
+  return randomUUID().slice(0, 8);
+}
+
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...fields }, fn);
+}
+
+export function getLogContext(): LogFields {
+  return storage.getStore() || {};
+}
+
+function serialize(value: unknown) {
+  if (value instanceof Error) {
+    return { message: value.message, name: value.name };
+  }
+  return value;
+}
+
+function write(level: LogLevel, msg: string, fields?: LogFields) {
+  if (LEVELS[level] < getMinLevel()) return;
+  const entry: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...getLogContext(),
+  };
+  for (const [key, value] of Object.entries(fields || {})) {
+    if (value !== undefined) entry[key] = serialize(value);
+  }
+  const line = `${JSON.stringify(entry)}\n`;
+  if (LEVELS[level] >= LEVELS.warn) process.stderr.write(line);
+  else process.stdout.write(line);
+}
+
+export const logger = {
+  debug: (msg: string, fields?: LogFields) => write("debug", msg, fields),
+  info: (msg: string, fields?: LogFields) => write("info", msg, fields),
+  warn: (msg: string, fields?: LogFields) => write("warn", msg, fields),
+  error: (msg: string, fields?: LogFields) => write("error", msg, fields),
+};
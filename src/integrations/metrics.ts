@@ -0,0 +1,124 @@
+import type http from "node:http";
+
+// Minimal Prometheus text-format registry; enough for counters and
+// histograms with a handful of labels, without pulling in a client library.
+type Labels = Record<string, string | number>;
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "histogram";
+  render: () => string[];
+};
+
+const registry: Metric[] = [];
+
+const labelKey = (labels: Labels = {}) =>
+  Object.keys(labels)
+    .sort()
+    .map((k) => `${k}="${String(labels[k]).replace(/["\\\n]/g, "_")}"`)
+    .join(",");
+
+const withLabels = (name: string, key: string) =>
+  key ? `${name}{${key}}` : name;
+
+export function createCounter(name: string, help: string) {
+  const values = new Map<string, number>();
+  registry.push({
+    name,
+    help,
+    type: "counter",
+    render: () =>
+      [...values].map(([key, value]) => `${withLabels(name, key)} ${value}`),
+  });
+  return {
+    inc: (labels?: Labels, by = 1) => {
+      const key = labelKey(labels);
+      values.set(key, (values.get(key) || 0) + by);
+    },
+  };
+}
+
+export function createHistogram(
+  name: string,
+  help: string,
+  buckets: number[],
+) {
+  const series = new Map<
+    string,
+    { counts: number[]; sum: number; count: number }
+  >();
+  registry.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...series].flatMap(([key, s]) => {
+        const bucketLine = (le: string, count: number) =>
+          `${name}_bucket{${key ? `${key},` : ""}le="${le}"} ${count}`;
+        return [
+          ...buckets.map((le, i) => bucketLine(String(le), s.counts[i])),
+          bucketLine("+Inf", s.count),
+          `${withLabels(`${name}_sum`, key)} ${s.sum}`,
+          `${withLabels(`${name}_count`, key)} ${s.count}`,
+        ];
+      }),
+  });
+  return {
+    observe: (value: number, labels?: Labels) => {
+      const key = labelKey(labels);
+      let s = series.get(key);
+      if (!s) {
+        s = { counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, s);
+      }
+      buckets.forEach((le, i) => {
+        if (value <= le) s.counts[i] += 1;
+      });
+      s.sum += value;
+      s.count += 1;
+    },
+  };
+}
+
+export function renderMetrics(): string {
+  const lines = registry.flatMap((m) => [
+    `# HELP ${m.name} ${m.help}`,
+    `# TYPE ${m.name} ${m.type}`,
+    ...m.render(),
+  ]);
+  return `${lines.join("\n")}\n`;
+}
+
+export const metrics = {
+  modelPassSeconds: createHistogram(
+    "model_pass_duration_seconds",
+    "Duration of one model pass, by purpose.",
+    [1, 2, 5, 10, 20, 30, 60, 120, 180, 300],
+  ),
+  mentionRefinePasses: createHistogram(
+    "mention_refine_passes",
+    "Refine passes run per mention reply.",
+    [0, 1, 2, 3, 4, 5, 6, 8],
+  ),
+  mentionQualityScore: createHistogram(
+    "mention_quality_score",
+    "Judge score (0-100) of the answer kept for a mention reply.",
+    [20, 40, 50, 60, 70, 80, 85, 90, 95, 100],
+  ),
+  codexExits: createCounter(
+    "codex_exit_total",
+    "codex exec processes by exit code.",
+  ),
+  modelFailures: createCounter(
+    "model_failures_total",
+    "Failed model passes by error kind.",
+  ),
+};
+
+export function writeMetrics(res: http.ServerResponse) {
+  res.writeHead(200, {
+    "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+  });
+  res.end(renderMetrics());
+}
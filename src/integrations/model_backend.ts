@@ -0,0 +1,279 @@
+import { createCodexBackend } from "./codex_client.js";
+import { createHttpBackend } from "./http_model_client.js";
+import { createFakeBackend } from "./fake_model_client.js";
+import { logger } from "./logger.js";
+import { metrics } from "./metrics.js";
+import {
+  createCancelledError,
+  isRetryableError,
+  toModelError,
+  type ModelErrorKind,
+} from "./model_errors.js";
+
+export type ModelToolKind =
+  | "web_search"
+  | "command"
+  | "mcp_tool"
+  | "file_change";
+
+// "text" carries the whole message received so far, not a delta, so
+// consumers can render it directly.
+export type ModelEvent =
+  | { type: "text"; text: string }
+  | { type: "tool"; tool: ModelToolKind; detail?: string };
+
+// How far a backend with tools may touch its working directory.
+export type RepoSandbox = "read-only" | "workspace-write";
+
+// Per-request overrides of the backend configuration (e.g. per channel).
+export type ModelOptions = {
+  model?: string;
+  reasoningEffort?: string;
+  webSearch?: boolean;
+  sandbox?: RepoSandbox;
+};
+
+// A local image file passed to the model alongside the prompt.
+export type ModelImage = {
+  path: string;
+  mimeType: string;
+};
+
+export type ModelRequest = {
+  prompt: string;
+  cwd: string;
+  timeoutMs?: number;
+  onEvent?: (event: ModelEvent) => void;
+  signal?: AbortSignal;
+  // Backend conversation to continue. Backends without sessions ignore it.
+  sessionId?: string;
+  options?: ModelOptions;
+  images?: ModelImage[];
+  // What the pass is for; used as a label in logs and metrics.
+  purpose?: ModelPurpose;
+};
+
+export type ModelPurpose =
+  | "draft"
+  | "refine"
+  | "deepen"
+  | "judge"
+  | "summary"
+  | "plan"
+  | "repair"
+  | "digest";
+
+export type ModelResult = {
+  text: string;
+  stderr?: string;
+  sessionId?: string;
+};
+
+export type ModelBackend = {
+  name: string;
+  run: (request: ModelRequest) => Promise<ModelResult>;
+};
+
+export type CodexBackendConfig = {
+  kind: "codex";
+  model?: string;
+  reasoningEffort?: string;
+  webSearch: boolean;
+};
+
+export type HttpBackendConfig = {
+  kind: "http";
+  baseUrl: string;
+  apiKey?: string;
+  model?: string;
+  reasoningEffort?: string;
+};
+
+export type FakeBackendConfig = {
+  kind: "fake";
+  scriptPath?: string;
+  responses?: FakeResponse[];
+};
+
+export type FakeResponse =
+  | string
+  | {
+      text?: string;
+      error?: string;
+      // Failure kind for scripted errors (default "model_error").
+      errorKind?: ModelErrorKind;
+      stderr?: string;
+      delayMs?: number;
+    };
+
+export type BackendConfig =
+  | CodexBackendConfig
+  | HttpBackendConfig
+  | FakeBackendConfig;
+
+function isDisabled(value: string | undefined) {
+  return value === "0" || value === "false";
+}
+
+export function loadBackendConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): BackendConfig {
+  const kind = (env.MODEL_BACKEND || "codex").trim().toLowerCase();
+  if (kind === "http") {
+    return {
+      kind: "http",
+      baseUrl: env.MODEL_HTTP_BASE_URL || "http://localhost:8000/v1",
+      apiKey: env.MODEL_HTTP_API_KEY || env.OPENAI_API_KEY,
+      model: env.MODEL_HTTP_MODEL || env.CODEX_MODEL,
+      reasoningEffort: env.CODEX_REASONING_EFFORT,
+    };
+  }
+  if (kind === "fake") {
+    return {
+      kind: "fake",
+      scriptPath: env.MODEL_FAKE_SCRIPT,
+    };
+  }
+  if (kind !== "codex") {
+    throw new Error(`Unknown MODEL_BACKEND: ${kind}`);
+  }
+  return {
+    kind: "codex",
+    model: env.CODEX_MODEL,
+    reasoningEffort: env.CODEX_REASONING_EFFORT,
+    webSearch: !isDisabled(env.CODEX_WEB_SEARCH),
+  };
+}
+
+export function createModelBackend(config: BackendConfig): ModelBackend {
+  switch (config.kind) {
+    case "http":
+      return createHttpBackend(config);
+    case "fake":
+      return createFakeBackend(config);
+    default:
+      return createCodexBackend(config);
+  }
+}
+
+// Logs and measures every pass, whatever the backend.
+export function instrumentBackend(backend: ModelBackend): ModelBackend {
+  return {
+    name: backend.name,
+    run: async (request) => {
+      const purpose = request.purpose || "other";
+      const startedAt = Date.now();
+      const observe = (outcome: string) => {
+        const seconds = (Date.now() - startedAt) / 1000;
+        metrics.modelPassSeconds.observe(seconds, {
+          backend: backend.name,
+          purpose,
+          outcome,
+        });
+        return seconds;
+      };
+      logger.debug("model pass started", { backend: backend.name, purpose });
+      try {
+        const result = await backend.run(request);
+        const seconds = observe("ok");
+        logger.info("model pass finished", {
+          backend: backend.name,
+          purpose,
+          seconds,
+          chars: result.text?.length ?? 0,
+        });
+        return result;
+      } catch (e) {
+        const { kind } = toModelError(e);
+        const seconds = observe(kind === "cancelled" ? "cancelled" : "error");
+        if (kind !== "cancelled") {
+          metrics.modelFailures.inc({ backend: backend.name, kind });
+        }
+        logger.warn("model pass failed", {
+          backend: backend.name,
+          purpose,
+          seconds,
+          kind,
+          error: (e as Error)?.message,
+        });
+        throw e;
+      }
+    },
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createCancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export type RetryConfig = {
+  maxRetries: number;
+  baseDelayMs: number;
+};
+
+export function loadRetryConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): RetryConfig {
+  const read = (value: string | undefined, fallback: number) => {
+    const parsed = Number.parseInt(value || "", 10);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+  return {
+    maxRetries: read(env.MODEL_MAX_RETRIES, 2),
+    baseDelayMs: read(env.MODEL_RETRY_BASE_MS, 2000),
+  };
+}
+
+// Retries timeouts, rate limits and killed runs with exponential backoff
+// and jitter (or the server's Retry-After). Everything else fails at once.
+export function withRetries(
+  backend: ModelBackend,
+  { maxRetries, baseDelayMs }: RetryConfig,
+): ModelBackend {
+  return {
+    name: backend.name,
+    run: async (request) => {
+      for (let attempt = 0; ; attempt += 1) {
+        try {
+          return await backend.run(request);
+        } catch (e) {
+          if (attempt >= maxRetries || !isRetryableError(e)) throw e;
+          const error = toModelError(e);
+          const backoff = baseDelayMs * 2 ** attempt;
+          const delayMs =
+            error.retryAfterMs ?? backoff + Math.random() * backoff * 0.5;
+          logger.warn("retrying model pass", {
+            purpose: request.purpose,
+            kind: error.kind,
+            attempt: attempt + 1,
+            delayMs: Math.round(delayMs),
+          });
+          await sleep(delayMs, request.signal);
+        }
+      }
+    },
+  };
+}
+
+let defaultBackend: ModelBackend | null = null;
+
+export function getModelBackend(): ModelBackend {
+  if (!defaultBackend) {
+    defaultBackend = withRetries(
+      instrumentBackend(createModelBackend(loadBackendConfig())),
+      loadRetryConfig(),
+    );
+  }
+  return defaultBackend;
+}
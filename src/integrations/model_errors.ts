@@ -0,0 +1,112 @@
+// Failures of a model pass, classified where they happen (the codex runner,
+// the HTTP client) instead of by guessing from stderr later.
+export type ModelErrorKind =
+  | "not_installed"
+  | "unauthenticated"
+  | "timeout"
+  | "rate_limited"
+  | "model_error"
+  | "killed"
+  | "cancelled";
+
+export type ModelError = Error & {
+  kind: ModelErrorKind;
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number | null;
+  // Server hint for rate limits, when there is one.
+  retryAfterMs?: number;
+  // Kept for callers that only check the flag.
+  cancelled?: boolean;
+};
+
+export const CANCELLED_TEXT = "🛑 キャンセルしました。";
+
+const RETRYABLE: ModelErrorKind[] = ["timeout", "rate_limited", "killed"];
+
+// User-facing explanations; every failure message shown in Slack comes from
+// here.
+const MESSAGES: Record<ModelErrorKind, string> = {
+  not_installed:
+    "Codex CLI が見つかりません。サーバーに `codex` をインストールして PATH を通してください。",
+  unauthenticated:
+    "モデルの認証に失敗しました。Codex CLI ならサーバーで `codex login` を、HTTP バックエンドなら API キーを確認してください。",
+  timeout:
+    "時間内に終わりませんでした。依頼を短くするか、少し時間をおいて再度お試しください。",
+  rate_limited:
+    "モデルの利用上限に達しました。少し時間をおいて再度お試しください。",
+  model_error:
+    "モデルの実行に失敗しました。詳細はサーバーのログを確認してください。",
+  killed: "処理が途中で強制終了されました。もう一度お試しください。",
+  cancelled: CANCELLED_TEXT,
+};
+
+// For passes that ran fine but whose output could not be used.
+export const INVALID_OUTPUT_TEXT =
+  "モデルの出力が期待した形式になりませんでした。";
+
+export function createModelError(
+  kind: ModelErrorKind,
+  message: string,
+  details: Partial<Omit<ModelError, "kind" | "message" | "name">> = {},
+): ModelError {
+  const e = new Error(message) as ModelError;
+  e.kind = kind;
+  Object.assign(e, details);
+  if (kind === "cancelled") e.cancelled = true;
+  return e;
+}
+
+export function createCancelledError(): ModelError {
+  return createModelError("cancelled", "Model run was cancelled.");
+}
+
+export function isCancelledError(err: unknown): boolean {
+  const e = err as ModelError;
+  return e?.kind === "cancelled" || Boolean(e?.cancelled);
+}
+
+// Anything that was not produced by a backend (a bug, a JSON parse error)
+// counts as a model error.
+export function toModelError(err: unknown): ModelError {
+  const e = err as ModelError;
+  if (e?.kind) return e;
+  if (isCancelledError(e)) return createCancelledError();
+  return createModelError(
+    "model_error",
+    (e as Error)?.message || String(err),
+    { stdout: e?.stdout, stderr: e?.stderr },
+  );
+}
+
+export function isRetryableError(err: unknown): boolean {
+  return RETRYABLE.includes(toModelError(err).kind);
+}
+
+export function describeModelError(err: unknown): string {
+  return MESSAGES[toModelError(err).kind];
+}
+
+// Classifies a failed `codex exec` from its output. Only specific phrases
+// count, so e.g. a file named "auth.ts" in a log is not a login failure.
+export function classifyCodexFailure(output: string): ModelErrorKind {
+  const text = output.toLowerCase();
+  if (
+    /not logged in|codex login|unauthorized|invalid api key|incorrect api key|authentication (failed|required|error)|\b401\b/.test(
+      text,
+    )
+  ) {
+    return "unauthenticated";
+  }
+  if (/rate.?limit|too many requests|\b429\b/.test(text)) {
+    return "rate_limited";
+  }
+  return "model_error";
+}
+
+export function classifyHttpStatus(status: number): ModelErrorKind {
+  if (status === 401 || status === 403) return "unauthenticated";
+  if (status === 429) return "rate_limited";
+  if (status === 408 || status === 504) return "timeout";
+  return "model_error";
+}
@@ -0,0 +1,79 @@
+import { logger } from "./logger.js";
+
+// Masks secrets and personal data in anything headed for a prompt. Only the
+// number of matches per kind is logged, never the matched text.
+export type RedactionKind =
+  | "slack_token"
+  | "openai_key"
+  | "aws_access_key"
+  | "aws_secret"
+  | "email"
+  | "phone";
+
+export type RedactionCounts = Partial<Record<RedactionKind, number>>;
+
+// Order matters: keys are masked before the looser email/phone patterns get
+// a chance to match parts of them.
+const PATTERNS: Array<[RedactionKind, RegExp]> = [
+  [
+    "slack_token",
+    /\bxox[abposre]-[A-Za-z0-9-]{10,}|\bxapp-\d-[A-Za-z0-9-]{10,}/g,
+  ],
+  ["openai_key", /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,}/g],
+  ["aws_access_key", /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g],
+  [
+    "aws_secret",
+    /(aws_secret_access_key|secret_?access_?key)(["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}/gi,
+  ],
+  ["email", /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g],
+  [
+    "phone",
+    /(?<![\d.])(?:\+\d{1,3}[ -]?\d{1,4}[ -]\d{2,4}[ -]\d{3,4}|0\d{1,4}-\d{1,4}-\d{3,4}|0[789]0\d{8})(?![\d.])/g,
+  ],
+];
+
+export function isRedactionEnabled() {
+  const value = process.env.REDACTION;
+  return value !== "0" && value !== "false";
+}
+
+export function redactText(text: string, counts: RedactionCounts = {}) {
+  let out = text;
+  for (const [kind, pattern] of PATTERNS) {
+    out = out.replace(pattern, (...args) => {
+      counts[kind] = (counts[kind] || 0) + 1;
+      // Keep the "aws_secret_access_key =" part so the text still reads.
+      return kind === "aws_secret"
+        ? `${args[1]}${args[2]}[REDACTED:${kind}]`
+        : `[REDACTED:${kind}]`;
+    });
+  }
+  return out;
+}
+
+// Strings anywhere in plain objects and arrays are redacted; other values
+// are kept as they are.
+function redactDeep<T>(value: T, counts: RedactionCounts): T {
+  if (typeof value === "string") return redactText(value, counts) as T;
+  if (Array.isArray(value)) {
+    return value.map((item) => redactDeep(item, counts)) as T;
+  }
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, redactDeep(v, counts)]),
+    ) as T;
+  }
+  return value;
+}
+
+// Redacts a prompt input (user text, Slack context, history ...) and logs
+// the counts under `label`.
+export function redactPromptInput<T>(input: T, label: string): T {
+  if (!isRedactionEnabled()) return input;
+  const counts: RedactionCounts = {};
+  const redacted = redactDeep(input, counts);
+  if (Object.keys(counts).length) {
+    logger.info("prompt input redacted", { purpose: label, counts });
+  }
+  return redacted;
+}
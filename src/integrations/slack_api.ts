@@ -1,118 +1,393 @@
 import { WebClient } from "@slack/web-api";
+import { createTtlCache } from "./ttl_cache.js";
 
-function slimMessages(messages, limit = 20) {
-  const list = messages || [];
-  const sliced = limit == null ? list : list.slice(0, limit);
-  return sliced.map((m) => ({
-    user: m.user || m.bot_id || "unknown",
-    text: m.text || "",
-    ts: m.ts || "",
-    thread_ts: m.thread_ts || "",
-  }));
-}
+type SlackUser = {
+  id: string;
+  name?: string;
+  real_name?: string;
+  display_name?: string;
+  title?: string;
+  is_bot?: boolean;
+  // e.g. "ja-JP"; used to pick the prompt language.
+  locale?: string;
+};
+
+type SlackChannel = {
+  name?: string;
+  topic?: string;
+  purpose?: string;
+};
+
+// url is the workspace URL, used to build message permalinks.
+type BotIdentity = { userId?: string; botId?: string; url?: string };
+
+export type SlackContextMessage = {
+  user: string;
+  user_name?: string;
+  text: string;
+  ts: string;
+  thread_ts: string;
+  // Messages posted by this bot itself, i.e. its earlier answers.
+  from_self?: boolean;
+};
 
 export type SlackContext = {
+  // The message a shortcut was used on; the request is about it.
+  selected_message?: SlackContextMessage;
   channel_id: string;
-  recent_messages?: Array<{
-    user: string;
-    text: string;
-    ts: string;
-    thread_ts: string;
-  }>;
+  // "dm" in a direct message with the bot; there is no channel info or
+  // member list and recent_messages is the DM itself.
+  conversation?: "dm";
+  channel?: SlackChannel;
+  channel_error?: string;
+  recent_messages?: SlackContextMessage[];
   recent_messages_error?: string;
-  channel_members?: string[];
+  channel_members?: Array<{ id: string; name?: string }>;
   channel_members_error?: string;
-  request_user?: {
-    id: string;
-    name?: string;
-    real_name?: string;
-    display_name?: string;
-    title?: string;
-  };
+  request_user?: SlackUser;
   request_user_error?: string;
-  thread_messages?: Array<{
-    user: string;
-    text: string;
-    ts: string;
-    thread_ts: string;
-  }>;
+  thread_messages?: SlackContextMessage[];
   thread_messages_error?: string;
 };
 
+const minutes = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return (Number.isFinite(value) && value >= 0 ? value : fallback) * 60_000;
+};
+
+// Profiles rarely change; channel info and membership a little more often.
+// History and thread replies are always fetched fresh.
+const userCache = createTtlCache<SlackUser>({
+  ttlMs: minutes("SLACK_USER_CACHE_TTL_MINUTES", 60),
+  maxEntries: 5000,
+});
+const channelCache = createTtlCache<SlackChannel>({
+  ttlMs: minutes("SLACK_CHANNEL_CACHE_TTL_MINUTES", 10),
+});
+const memberCache = createTtlCache<string[]>({
+  ttlMs: minutes("SLACK_CHANNEL_CACHE_TTL_MINUTES", 10),
+});
+const botCache = createTtlCache<BotIdentity>({ ttlMs: 24 * 60 * 60_000 });
+
+const clients = new Map<string, WebClient>();
+
+function getClient(token: string) {
+  let client = clients.get(token);
+  if (!client) {
+    client = new WebClient(token);
+    clients.set(token, client);
+  }
+  return client;
+}
+
+const errorMessage = (e) => e?.data?.error || e?.message;
+
+function getUserName(user?: SlackUser | null) {
+  return user?.display_name || user?.real_name || user?.name || undefined;
+}
+
+function getUser(client: WebClient, userId: string) {
+  return userCache.get(userId, async () => {
+    const info = await client.users.info({
+      user: userId,
+      include_locale: true,
+    });
+    const profile = info.user?.profile || {};
+    return {
+      id: userId,
+      name: info.user?.name,
+      real_name: profile.real_name,
+      display_name: profile.display_name,
+      title: profile.title,
+      is_bot: info.user?.is_bot,
+      locale: info.user?.locale,
+    };
+  });
+}
+
+function getChannel(client: WebClient, channelId: string) {
+  return channelCache.get(channelId, async () => {
+    const info = await client.conversations.info({ channel: channelId });
+    return {
+      name: info.channel?.name,
+      topic: info.channel?.topic?.value || undefined,
+      purpose: info.channel?.purpose?.value || undefined,
+    };
+  });
+}
+
+function getMembers(client: WebClient, channelId: string) {
+  return memberCache.get(channelId, async () => {
+    const members = await client.conversations.members({
+      channel: channelId,
+      limit: 50,
+    });
+    return (members.members || []).slice(0, 50);
+  });
+}
+
+function getBotIdentity(client: WebClient, token: string) {
+  return botCache.get(token, async () => {
+    const auth = await client.auth.test();
+    return { userId: auth.user_id, botId: auth.bot_id, url: auth.url };
+  });
+}
+
+// Resolves a batch of user IDs through the cache; unknown users are skipped
+// rather than failing the whole context.
+async function resolveUserNames(client: WebClient, userIds: string[]) {
+  const names = new Map<string, string>();
+  await Promise.all(
+    [...new Set(userIds)].map(async (id) => {
+      try {
+        const name = getUserName(await getUser(client, id));
+        if (name) names.set(id, name);
+      } catch {
+        // Deleted or external users; the raw ID is kept.
+      }
+    }),
+  );
+  return names;
+}
+
+const MENTION_PATTERN = /<@([UW][A-Z0-9]+)(?:\|[^>]*)?>/g;
+
+function collectUserIds(messages) {
+  const ids: string[] = [];
+  for (const m of messages) {
+    if (m.user) ids.push(m.user);
+    for (const match of (m.text || "").matchAll(MENTION_PATTERN)) {
+      ids.push(match[1]);
+    }
+  }
+  return ids;
+}
+
+function slimMessages(
+  messages,
+  names: Map<string, string>,
+  bot: BotIdentity | null,
+  limit = 20,
+): SlackContextMessage[] {
+  const list = messages || [];
+  const sliced = limit == null ? list : list.slice(0, limit);
+  return sliced.map((m) => {
+    const fromSelf = Boolean(
+      bot &&
+        ((bot.userId && m.user === bot.userId) ||
+          (bot.botId && m.bot_id === bot.botId)),
+    );
+    return {
+      user: m.user || m.bot_id || "unknown",
+      user_name: names.get(m.user) || m.username || m.bot_profile?.name,
+      // "<@U123>" means nothing to the model; show who was mentioned.
+      text: (m.text || "").replace(MENTION_PATTERN, (raw, id) =>
+        names.has(id) ? `@${names.get(id)}` : raw,
+      ),
+      ts: m.ts || "",
+      thread_ts: m.thread_ts || "",
+      ...(fromSelf ? { from_self: true } : {}),
+    };
+  });
+}
+
+async function fetchThread(
+  client: WebClient,
+  channelId: string,
+  threadTs: string,
+) {
+  const allReplies = [];
+  let cursor = undefined;
+  do {
+    const replies = await client.conversations.replies({
+      channel: channelId,
+      ts: threadTs,
+      limit: 100,
+      cursor,
+    });
+    if (replies.messages?.length) {
+      allReplies.push(...replies.messages);
+    }
+    cursor = replies.response_metadata?.next_cursor || undefined;
+    if (allReplies.length >= 200) break;
+  } while (cursor);
+  return allReplies;
+}
+
+export function isDirectMessageChannel(channelId: string) {
+  return channelId.startsWith("D");
+}
+
+// Failures of one lookup are recorded next to the data (`*_error`) instead
+// of failing the whole context.
+const settle = <T>(promise: Promise<T>) =>
+  promise.then(
+    (value) => ({ value, error: undefined }),
+    (e) => ({ value: undefined as T | undefined, error: errorMessage(e) }),
+  );
+
 export async function buildSlackContext({
   token,
   channelId,
   userId,
   threadTs,
+  selectedTs,
 }: {
   token?: string;
   channelId?: string;
   userId?: string;
   threadTs?: string;
+  // A message of the thread to put first as `selected_message`.
+  selectedTs?: string;
 }): Promise<SlackContext | null> {
   if (!token || !channelId) return null;
 
-  const client = new WebClient(token);
-  const context: SlackContext = { channel_id: channelId };
+  const client = getClient(token);
+  const direct = isDirectMessageChannel(channelId);
+  const context: SlackContext = direct
+    ? { channel_id: channelId, conversation: "dm" }
+    : { channel_id: channelId };
 
-  try {
-    const history = await client.conversations.history({
-      channel: channelId,
-      limit: 20,
-    });
-    context.recent_messages = slimMessages(history.messages, 20);
-  } catch (e) {
-    context.recent_messages_error = e?.data?.error || e?.message;
-  }
+  // Independent lookups run in parallel; on a warm cache only history and
+  // thread replies hit the API. A DM has no channel info worth sending and
+  // its only members are the user and the bot.
+  const [history, thread, channel, members, requestUser, bot] =
+    await Promise.all([
+      settle(client.conversations.history({ channel: channelId, limit: 20 })),
+      threadTs
+        ? settle(fetchThread(client, channelId, threadTs))
+        : Promise.resolve(null),
+      direct ? Promise.resolve(null) : settle(getChannel(client, channelId)),
+      direct ? Promise.resolve(null) : settle(getMembers(client, channelId)),
+      userId ? settle(getUser(client, userId)) : Promise.resolve(null),
+      settle(getBotIdentity(client, token)),
+    ]);
 
-  try {
-    const members = await client.conversations.members({
-      channel: channelId,
-      limit: 50,
-    });
-    context.channel_members = (members.members || []).slice(0, 50);
-  } catch (e) {
-    context.channel_members_error = e?.data?.error || e?.message;
+  const historyMessages = history.value?.messages || [];
+  const threadMessages = thread?.value || [];
+  const memberIds = members?.value || [];
+  const names = await resolveUserNames(client, [
+    ...collectUserIds(historyMessages),
+    ...collectUserIds(threadMessages),
+    ...memberIds,
+  ]);
+  const botIdentity = bot.value || null;
+
+  if (channel?.error) context.channel_error = channel.error;
+  else if (channel) context.channel = channel.value;
+
+  if (history.error) context.recent_messages_error = history.error;
+  else {
+    context.recent_messages = slimMessages(
+      historyMessages,
+      names,
+      botIdentity,
+      20,
+    );
   }
 
-  if (userId) {
-    try {
-      const userInfo = await client.users.info({ user: userId });
-      const profile = userInfo.user?.profile || {};
-      context.request_user = {
-        id: userId,
-        name: userInfo.user?.name,
-        real_name: profile.real_name,
-        display_name: profile.display_name,
-        title: profile.title,
-      };
-    } catch (e) {
-      context.request_user_error = e?.data?.error || e?.message;
-    }
+  if (members?.error) context.channel_members_error = members.error;
+  else if (members) {
+    context.channel_members = memberIds.map((id) => ({
+      id,
+      name: names.get(id),
+    }));
   }
 
-  if (threadTs) {
-    try {
-      const allReplies = [];
-      let cursor = undefined;
-      do {
-        const replies = await client.conversations.replies({
-          channel: channelId,
-          ts: threadTs,
-          limit: 100,
-          cursor,
-        });
-        if (replies.messages?.length) {
-          allReplies.push(...replies.messages);
-        }
-        cursor = replies.response_metadata?.next_cursor || undefined;
-        if (allReplies.length >= 200) break;
-      } while (cursor);
-      context.thread_messages = slimMessages(allReplies, null);
-    } catch (e) {
-      context.thread_messages_error = e?.data?.error || e?.message;
-    }
+  if (requestUser?.error) context.request_user_error = requestUser.error;
+  else if (requestUser?.value) context.request_user = requestUser.value;
+
+  if (thread?.error) context.thread_messages_error = thread.error;
+  else if (thread) {
+    context.thread_messages = slimMessages(
+      threadMessages,
+      names,
+      botIdentity,
+      null,
+    );
   }
 
-  return context;
+  const selected = selectedTs
+    ? context.thread_messages?.find((m) => m.ts === selectedTs)
+    : undefined;
+  return selected ? { selected_message: selected, ...context } : context;
+}
+
+export type SlackHistoryMessage = SlackContextMessage & {
+  permalink?: string;
+  reply_count?: number;
+};
+
+// Join/leave notices and similar carry no content worth summarizing.
+const IGNORED_SUBTYPES = new Set([
+  "channel_join",
+  "channel_leave",
+  "channel_topic",
+  "channel_purpose",
+  "channel_name",
+  "bot_add",
+  "bot_remove",
+]);
+
+// Same scheme as chat.getPermalink, without one API call per message.
+function buildPermalink(
+  url: string | undefined,
+  channelId: string,
+  ts: string,
+) {
+  if (!url || !ts) return undefined;
+  const base = url.replace(/\/?$/, "/");
+  return `${base}archives/${channelId}/p${ts.replace(".", "")}`;
+}
+
+// Top-level channel messages since `oldest` (a Slack ts), oldest first, with
+// names resolved and a permalink each. Stops after maxMessages.
+export async function fetchChannelHistory({
+  token,
+  channelId,
+  oldest,
+  maxMessages = 500,
+}: {
+  token: string;
+  channelId: string;
+  oldest: string;
+  maxMessages?: number;
+}): Promise<{
+  channel?: SlackChannel;
+  messages: SlackHistoryMessage[];
+  truncated: boolean;
+}> {
+  const client = getClient(token);
+  const [channel, bot] = await Promise.all([
+    settle(getChannel(client, channelId)),
+    settle(getBotIdentity(client, token)),
+  ]);
+  const raw = [];
+  let cursor = undefined;
+  do {
+    const page = await client.conversations.history({
+      channel: channelId,
+      oldest,
+      limit: 200,
+      cursor,
+    });
+    raw.push(
+      ...(page.messages || []).filter((m) => !IGNORED_SUBTYPES.has(m.subtype)),
+    );
+    cursor = page.response_metadata?.next_cursor || undefined;
+  } while (cursor && raw.length < maxMessages);
+
+  // Newest first from Slack; keep the newest when there are too many.
+  const kept = raw.slice(0, maxMessages).reverse();
+  const names = await resolveUserNames(client, collectUserIds(kept));
+  const slim = slimMessages(kept, names, bot.value || null, null);
+  return {
+    channel: channel.value,
+    truncated: raw.length > maxMessages,
+    messages: slim.map((m, i) => ({
+      ...m,
+      permalink: buildPermalink(bot.value?.url, channelId, m.ts),
+      ...(kept[i].reply_count ? { reply_count: kept[i].reply_count } : {}),
+    })),
+  };
 }
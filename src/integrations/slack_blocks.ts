@@ -0,0 +1,81 @@
+import type { Button, KnownBlock } from "@slack/web-api";
+
+export const CANCEL_JOB_ACTION = "cancel_job";
+export const STOP_REFINE_ACTION = "stop_refine";
+export const REGENERATE_ACTION = "regenerate_reply";
+export const DEEPEN_ACTION = "deepen_reply";
+export const HANGOUT_VOTE_ACTION = "hangout_vote";
+export const HANGOUT_DECIDE_ACTION = "hangout_decide";
+export const HANGOUT_SHARE_ACTION = "hangout_share";
+export const HANGOUT_SHARE_VIEW = "hangout_share_modal";
+export const AGENT_CONFIG_VIEW = "agent_config_modal";
+export const ASK_MESSAGE_SHORTCUT = "ask_about_message";
+export const ASK_MESSAGE_VIEW = "ask_message_modal";
+
+const SECTION_TEXT_LIMIT = 3000;
+
+export type ReplyPhase = "working" | "refining" | "done";
+
+function button(
+  actionId: string,
+  label: string,
+  value: string,
+  style?: "primary" | "danger",
+): Button {
+  return {
+    type: "button",
+    action_id: actionId,
+    text: { type: "plain_text", text: label },
+    value,
+    ...(style ? { style } : {}),
+  };
+}
+
+// Blocks replace the message text in the Slack UI, so the text is repeated in
+// a section. Returns an empty list (which clears earlier blocks on
+// chat.update) when there is nothing to attach or the text would not fit.
+function withActions(text: string, elements: Button[]): KnownBlock[] {
+  if (!elements.length || !text || text.length > SECTION_TEXT_LIMIT) {
+    return [];
+  }
+  return [
+    { type: "section", text: { type: "mrkdwn", text } },
+    { type: "actions", elements },
+  ];
+}
+
+export function buildPendingReplyBlocks({
+  text,
+  jobId,
+}: {
+  text: string;
+  jobId?: string;
+}): KnownBlock[] {
+  if (!jobId) return [];
+  return withActions(text, [
+    button(CANCEL_JOB_ACTION, "キャンセル", jobId, "danger"),
+  ]);
+}
+
+export function buildMentionReplyBlocks({
+  text,
+  phase,
+  jobId,
+}: {
+  text: string;
+  phase: ReplyPhase;
+  jobId?: string;
+}): KnownBlock[] {
+  if (phase === "working") {
+    return buildPendingReplyBlocks({ text, jobId });
+  }
+  if (phase === "refining") {
+    return withActions(text, [
+      button(STOP_REFINE_ACTION, "改善を止める", "stop"),
+    ]);
+  }
+  return withActions(text, [
+    button(REGENERATE_ACTION, "再生成", "regenerate"),
+    button(DEEPEN_ACTION, "もっと詳しく", "deepen", "primary"),
+  ]);
+}
@@ -0,0 +1,280 @@
+import { spawn } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { WebClient } from "@slack/web-api";
+import type { ModelImage } from "./model_backend.js";
+
+// The parts of a Slack file object we use. app_mention events may carry only
+// the id, in which case the rest is looked up with files.info.
+export type SlackFileRef = {
+  id: string;
+  name?: string;
+  mimetype?: string;
+  filetype?: string;
+  size?: number;
+  url_private_download?: string;
+  url_private?: string;
+};
+
+export type TextAttachment = {
+  name: string;
+  text: string;
+  truncated: boolean;
+};
+
+export type SkippedAttachment = {
+  name: string;
+  reason: string;
+};
+
+export type DownloadedAttachments = {
+  images: ModelImage[];
+  texts: TextAttachment[];
+  skipped: SkippedAttachment[];
+  cleanup: () => Promise<void>;
+};
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const TEXT_FILETYPES = new Set([
+  "text",
+  "log",
+  "markdown",
+  "md",
+  "csv",
+  "tsv",
+  "json",
+  "yaml",
+  "yml",
+  "xml",
+  "html",
+  "sql",
+  "diff",
+  "shell",
+  "javascript",
+  "typescript",
+  "python",
+  "go",
+  "rust",
+  "java",
+  "kotlin",
+  "swift",
+  "ruby",
+  "php",
+  "c",
+  "cpp",
+  "csharp",
+]);
+const PDF_TIMEOUT_MS = 20000;
+const DOWNLOAD_TIMEOUT_MS = 30000;
+
+function readLimit(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function getLimits() {
+  return {
+    maxFiles: readLimit("ATTACHMENT_MAX_FILES", 5),
+    maxBytes: readLimit("ATTACHMENT_MAX_MB", 10) * 1024 * 1024,
+    // Total characters of text and PDF content added to the prompt.
+    maxTextChars: readLimit("ATTACHMENT_MAX_TEXT_CHARS", 20000),
+  };
+}
+
+type FileKind = "image" | "text" | "pdf";
+
+function classify(file: SlackFileRef): FileKind | null {
+  const mime = (file.mimetype || "").toLowerCase();
+  if (IMAGE_TYPES.includes(mime)) return "image";
+  if (mime === "application/pdf" || file.filetype === "pdf") return "pdf";
+  if (mime.startsWith("text/") || TEXT_FILETYPES.has(file.filetype || "")) {
+    return "text";
+  }
+  return null;
+}
+
+async function download(url: string, token: string, signal?: AbortSignal) {
+  const timeout = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS);
+  const res = await fetch(url, {
+    headers: { Authorization: `Bearer ${token}` },
+    signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+  });
+  if (!res.ok) throw new Error(`status ${res.status}`);
+  // Without the files:read scope Slack answers with its login page.
+  if ((res.headers.get("content-type") || "").includes("text/html")) {
+    throw new Error("files:read スコープがありません");
+  }
+  return Buffer.from(await res.arrayBuffer());
+}
+
+// Aborting `signal` kills pdftotext and rejects with the abort reason, but
+// only once the process is gone, so cleanup never removes a file it still
+// reads.
+function extractPdfText(
+  filePath: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const child = spawn("pdftotext", ["-layout", filePath, "-"], {
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    let stdout = "";
+    let stderr = "";
+    const kill = () => child.kill("SIGKILL");
+    const timer = setTimeout(kill, PDF_TIMEOUT_MS);
+    signal?.addEventListener("abort", kill, { once: true });
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", kill);
+    };
+    child.stdout.on("data", (d) => (stdout += d.toString("utf-8")));
+    child.stderr.on("data", (d) => (stderr += d.toString("utf-8")));
+    child.on("error", (err) => {
+      done();
+      reject(signal?.aborted ? signal.reason : err);
+    });
+    child.on("close", (code) => {
+      done();
+      if (signal?.aborted) reject(signal.reason);
+      else if (code === 0) resolve(stdout);
+      else reject(new Error(stderr.trim() || `pdftotext exited with ${code}`));
+    });
+  });
+}
+
+function describePdfError(err: NodeJS.ErrnoException) {
+  return err?.code === "ENOENT"
+    ? "PDF のテキスト抽出ツール (pdftotext) がありません"
+    : `PDF を読み取れませんでした (${err?.message})`;
+}
+
+// Downloads the files of a mention into a private temp directory. Images are
+// handed to the model as files, text and PDF content is returned for the
+// prompt, and everything else is reported back as skipped. Call cleanup()
+// once the run is over. Aborting `signal` rejects with the abort reason.
+export async function downloadSlackFiles({
+  client,
+  token,
+  files,
+  signal,
+}: {
+  client: WebClient;
+  token: string;
+  files: SlackFileRef[];
+  signal?: AbortSignal;
+}): Promise<DownloadedAttachments> {
+  const limits = getLimits();
+  const result: DownloadedAttachments = {
+    images: [],
+    texts: [],
+    skipped: [],
+    cleanup: async () => {},
+  };
+  if (!files?.length) return result;
+
+  const dir = await mkdtemp(path.join(tmpdir(), "slack-files-"));
+  result.cleanup = () => rm(dir, { recursive: true, force: true });
+
+  let textBudget = limits.maxTextChars;
+  const addText = (name: string, text: string) => {
+    const clean = text.replace(/\u0000/g, "").trim();
+    if (!clean) {
+      result.skipped.push({ name, reason: "中身が空です" });
+      return;
+    }
+    if (textBudget <= 0) {
+      result.skipped.push({ name, reason: "テキストの上限を超えました" });
+      return;
+    }
+    const truncated = clean.length > textBudget;
+    const kept = truncated ? clean.slice(0, textBudget) : clean;
+    textBudget -= kept.length;
+    result.texts.push({ name, text: kept, truncated });
+  };
+
+  for (const [index, ref] of files.entries()) {
+    let file = ref;
+    const label = () => file.name || file.id;
+    try {
+      if (index >= limits.maxFiles) {
+        result.skipped.push({
+          name: label(),
+          reason: `添付は${limits.maxFiles}件までです`,
+        });
+        continue;
+      }
+      if (!file.url_private_download && !file.url_private) {
+        const info = await client.files.info({ file: file.id });
+        file = { ...file, ...(info.file as SlackFileRef) };
+      }
+      const kind = classify(file);
+      if (!kind) {
+        result.skipped.push({
+          name: label(),
+          reason: `未対応の形式です (${file.mimetype || file.filetype})`,
+        });
+        continue;
+      }
+      if ((file.size || 0) > limits.maxBytes) {
+        result.skipped.push({
+          name: label(),
+          reason: `${Math.round(limits.maxBytes / 1024 / 1024)}MB を超えています`,
+        });
+        continue;
+      }
+      const data = await download(
+        file.url_private_download || file.url_private,
+        token,
+        signal,
+      );
+      if (data.length > limits.maxBytes) {
+        result.skipped.push({ name: label(), reason: "サイズが大きすぎます" });
+        continue;
+      }
+      // Slack file names are user input; only the id goes into the path.
+      const ext = path.extname(file.name || "").replace(/[^.\w]/g, "");
+      const filePath = path.join(dir, `${index}-${file.id}${ext}`);
+      await writeFile(filePath, data);
+
+      if (kind === "image") {
+        result.images.push({ path: filePath, mimeType: file.mimetype });
+      } else if (kind === "text") {
+        addText(label(), data.toString("utf-8"));
+      } else {
+        try {
+          addText(label(), await extractPdfText(filePath, signal));
+        } catch (e) {
+          if (signal?.aborted) throw e;
+          result.skipped.push({
+            name: label(),
+            reason: describePdfError(e as NodeJS.ErrnoException),
+          });
+        }
+      }
+    } catch (e) {
+      if (signal?.aborted) {
+        await result.cleanup();
+        throw signal.reason;
+      }
+      result.skipped.push({
+        name: label(),
+        reason: `ダウンロードできませんでした (${
+          (e as { data?: { error?: string } })?.data?.error ||
+          (e as Error)?.message
+        })`,
+      });
+    }
+  }
+  return result;
+}
+
+export function formatSkippedAttachments(skipped: SkippedAttachment[]) {
+  if (!skipped.length) return "";
+  const lines = skipped.map((s) => `・${s.name}: ${s.reason}`);
+  return `⚠️ 読み込まなかった添付ファイル\n${lines.join("\n")}`;
+}
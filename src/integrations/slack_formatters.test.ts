@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { lintSlackMrkdwn } from "./slack_formatters.js";
+
+const lint = (text: string) => lintSlackMrkdwn(text).text;
+
+test("converts markdown emphasis, headings and links", () => {
+  assert.equal(lint("## 手順"), "*手順*");
+  assert.equal(lint("**重要**な点"), "*重要* な点");
+  assert.equal(lint("これは*重要*です"), "これは *重要* です");
+  assert.equal(lint("値は * 60 * です"), "値は *60* です");
+  assert.equal(
+    lint("[docs](https://example.com/docs)"),
+    "<https://example.com/docs|docs>",
+  );
+});
+
+test("keeps balanced parentheses in link URLs", () => {
+  assert.equal(
+    lint("[docs](https://example.com/a_(b))"),
+    "<https://example.com/a_(b)|docs>",
+  );
+});
+
+test("leaves Slack links and bare URLs untouched", () => {
+  for (const text of [
+    "<https://example.com/a_*b*_c|リンク>",
+    "見て https://example.com/a_*b*_c です",
+    "<@U123> と <#C123|general>",
+  ]) {
+    assert.deepEqual(lintSlackMrkdwn(text), { text, fired: {} });
+  }
+});
+
+test("leaves arithmetic, globs and paths untouched", () => {
+  for (const text of [
+    "5 * 60 * 1000",
+    "5*60*1000",
+    "src/*.ts と lib/*.js",
+    "2 * 3 = 6",
+  ]) {
+    assert.deepEqual(lintSlackMrkdwn(text), { text, fired: {} });
+  }
+});
+
+test("leaves code untouched", () => {
+  const text = "`**x**` と\n```\n## not a heading\n| a | b |\n```";
+  assert.deepEqual(lintSlackMrkdwn(text), { text, fired: {} });
+});
+
+test("removes broadcast mentions unless allowed", () => {
+  assert.deepEqual(lintSlackMrkdwn("<!channel> 告知です"), {
+    text: "告知です",
+    fired: { broadcast_mention: 1 },
+  });
+  assert.equal(
+    lintSlackMrkdwn("<!here> 告知です", { allowBroadcast: true }).text,
+    "<!here> 告知です",
+  );
+});
+
+test("replaces HTML tags", () => {
+  assert.equal(lint("<b>太字</b><br>次の行"), "*太字*\n次の行");
+});
+
+test("uses the bullet of the prompt locale", () => {
+  const text = "- one\n  * nested\n| a | b |\n|---|---|\n| 1 | 2 |";
+  assert.equal(lint(text), "・ one\n  ・ nested\n・ 1 / b: 2");
+  assert.equal(
+    lintSlackMrkdwn(text, { locale: "en" }).text,
+    "• one\n  • nested\n• 1 / b: 2",
+  );
+});
@@ -2,8 +2,12 @@ export function stripBotMention(text: string): string {
   return (text || "").replace(/^<@[^>]+>\s*/, "").trim();
 }
 
+// "[label](url)"; the URL may contain balanced parentheses, as in
+// https://en.wikipedia.org/wiki/Tree_(data_structure).
+const MARKDOWN_LINK = /\[([^\]\n]+)\]\((https?:\/\/(?:[^()\s]|\([^()\s]*\))+)\)/g;
+
 function toSlackLinks(text: string): string {
-  return (text || "").replace(/\[([^\]]+)\]\((https?:\/\/[^)]+)\)/g, "<$2|$1>");
+  return (text || "").replace(MARKDOWN_LINK, "<$2|$1>");
 }
 
 export function stripUrls(text: string): string {
@@ -37,3 +41,198 @@ export function toSlackMarkdown(text: string): string {
   out = toSlackLinks(out);
   return out.trim();
 }
+
+export type SlackLintRule =
+  | "markdown_link"
+  | "heading"
+  | "double_asterisk"
+  | "spaced_emphasis"
+  | "adjacent_emphasis"
+  | "markdown_bullet"
+  | "html_tag"
+  | "table"
+  | "broadcast_mention";
+
+export type SlackLintResult = {
+  text: string;
+  // How often each rule had to repair something.
+  fired: Partial<Record<SlackLintRule, number>>;
+};
+
+const CODE_PATTERN = /```[\s\S]*?```|`[^`\n]+`/g;
+// Slack tokens (<url|label>, <@U123>, <#C123>, <!here>) and bare URLs.
+const TOKEN_PATTERN =
+  /<(?:https?:\/\/|mailto:|[@#!])[^<>\n]*>|https?:\/\/[^\s<>]+/g;
+const PLACEHOLDER = (i: number) => `\u0000${i}\u0000`;
+// An emphasis marker next to one of these is arithmetic, a glob or a path
+// ("5*60", "src/*.ts"), not emphasis.
+const NOT_EMPHASIS_NEIGHBOR = /[\d/.]/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+// Pipe tables become one bullet per row, labelled with the header cells.
+function replaceTables(
+  text: string,
+  bullet: string,
+  hit: () => void,
+): string {
+  const lines = text.split("\n");
+  const out: string[] = [];
+  for (let i = 0; i < lines.length; i += 1) {
+    if (!TABLE_ROW.test(lines[i]) || !TABLE_ROW.test(lines[i + 1] || "")) {
+      out.push(lines[i]);
+      continue;
+    }
+    const rows: string[] = [];
+    while (i < lines.length && TABLE_ROW.test(lines[i])) {
+      rows.push(lines[i]);
+      i += 1;
+    }
+    i -= 1;
+    hit();
+    const hasHeader = rows.length > 1 && TABLE_SEPARATOR.test(rows[1]);
+    const headers = hasHeader ? splitTableRow(rows[0]) : [];
+    const body = hasHeader ? rows.slice(2) : rows;
+    for (const row of body) {
+      if (TABLE_SEPARATOR.test(row)) continue;
+      const cells = splitTableRow(row).map((cell, c) =>
+        headers[c] && c > 0 ? `${headers[c]}: ${cell}` : cell,
+      );
+      out.push(`${bullet} ${cells.filter(Boolean).join(" / ")}`);
+    }
+  }
+  return out.join("\n");
+}
+
+// Deterministic clean-up of model output for Slack mrkdwn. Code blocks,
+// inline code, links and URLs are left untouched; broadcast mentions are
+// removed unless the requester explicitly asked for one. Bullets use the
+// glyph the prompt templates of `locale` ask for: "・" in Japanese (the
+// default), "•" otherwise.
+export function lintSlackMrkdwn(
+  input: string,
+  {
+    allowBroadcast = false,
+    locale = "ja",
+  }: { allowBroadcast?: boolean; locale?: string } = {},
+): SlackLintResult {
+  const bullet = locale === "ja" ? "・" : "•";
+  const fired: SlackLintResult["fired"] = {};
+  const count = (rule: SlackLintRule) => {
+    fired[rule] = (fired[rule] || 0) + 1;
+  };
+  const fix = (
+    text: string,
+    rule: SlackLintRule,
+    pattern: RegExp,
+    replacer: (...args: string[]) => string,
+  ) =>
+    text.replace(pattern, (...args) => {
+      count(rule);
+      return replacer(...args);
+    });
+
+  const kept: string[] = [];
+  const keep = (text: string, pattern: RegExp) =>
+    text.replace(pattern, (m) => {
+      kept.push(m);
+      return PLACEHOLDER(kept.length - 1);
+    });
+  // Kept parts may themselves contain placeholders, e.g. code in a label.
+  const restore = (text: string): string =>
+    text.replace(/\u0000(\d+)\u0000/g, (_m, i) => restore(kept[Number(i)]));
+
+  let out = keep(input || "", CODE_PATTERN);
+
+  out = fix(out, "html_tag", /<br\s*\/?>/gi, () => "\n");
+  out = fix(
+    out,
+    "html_tag",
+    /<(b|strong)>([\s\S]*?)<\/\1>/gi,
+    (_m, _t, inner) => `*${inner.trim()}*`,
+  );
+  out = fix(
+    out,
+    "html_tag",
+    /<(i|em)>([\s\S]*?)<\/\1>/gi,
+    (_m, _t, inner) => `_${inner.trim()}_`,
+  );
+  out = fix(
+    out,
+    "html_tag",
+    /<\/?(?:p|div|span|u|ul|ol|li|h[1-6]|table|tr|td|th)(?:\s[^>]*)?>/gi,
+    () => "",
+  );
+  if (!allowBroadcast) {
+    out = fix(
+      out,
+      "broadcast_mention",
+      /<!(?:channel|here|everyone)(?:\|[^>]*)?>[ \t]*/g,
+      () => "",
+    );
+  }
+  out = fix(
+    out,
+    "markdown_link",
+    MARKDOWN_LINK,
+    (_m, label, url) => `<${url}|${label}>`,
+  );
+  out = keep(out, TOKEN_PATTERN);
+
+  out = replaceTables(out, bullet, () => count("table"));
+  out = fix(
+    out,
+    "heading",
+    /^[ \t]{0,3}#{1,6}[ \t]+(.+?)[ \t]*#*[ \t]*$/gm,
+    (_m, title) => `*${title.replace(/\*/g, "").trim()}*`,
+  );
+  out = fix(
+    out,
+    "double_asterisk",
+    /\*\*(.+?)\*\*/g,
+    (_m, inner) => `*${inner}*`,
+  );
+  out = fix(
+    out,
+    "spaced_emphasis",
+    /(?<![\d/.][ \t]*)\*[ \t]+([^*\n]+?)[ \t]+\*(?![ \t]*[\d/.])/g,
+    (_m, inner) => `*${inner}*`,
+  );
+  out = fix(
+    out,
+    "markdown_bullet",
+    /^([ \t]*)[-*+][ \t]+/gm,
+    (_m, indent) => `${indent}${bullet} `,
+  );
+  // Slack only renders *bold* when it is separated by whitespace, which
+  // models routinely forget in Japanese text ("これは*重要*です").
+  out = out.replace(
+    /\*([^*\s](?:[^*\n]*?[^*\s])?)\*/g,
+    (m, _inner, offset: number, whole: string) => {
+      const before = whole[offset - 1];
+      const after = whole[offset + m.length];
+      if (
+        NOT_EMPHASIS_NEIGHBOR.test(before || "") ||
+        NOT_EMPHASIS_NEIGHBOR.test(after || "")
+      ) {
+        return m;
+      }
+      const padBefore = before !== undefined && !/\s/.test(before);
+      const padAfter = after !== undefined && !/\s/.test(after);
+      if (!padBefore && !padAfter) return m;
+      count("adjacent_emphasis");
+      return `${padBefore ? " " : ""}${m}${padAfter ? " " : ""}`;
+    },
+  );
+
+  out = restore(out);
+  return { text: out.replace(/\n{3,}/g, "\n\n").trim(), fired };
+}
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { splitSlackText } from "./slack_split.js";
+
+const lines = (prefix: string, count: number) =>
+  Array.from({ length: count }, (_, i) => `${prefix}${i}`).join("\n");
+
+test("returns short text as one chunk", () => {
+  assert.deepEqual(splitSlackText("  hello  "), ["hello"]);
+  assert.deepEqual(splitSlackText(""), [""]);
+});
+
+test("keeps every chunk within the limit", () => {
+  const chunks = splitSlackText(lines("line ", 40), 50);
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) assert.ok(chunk.length <= 50, chunk);
+  assert.equal(chunks.join("\n"), lines("line ", 40));
+});
+
+test("treats a single-line fenced block as self-contained", () => {
+  const text = ["```one```", lines("after ", 20)].join("\n");
+  const chunks = splitSlackText(text, 40);
+  assert.equal(chunks[0].split("\n")[0], "```one```");
+  // Text after the one-line block is not treated as code.
+  for (const chunk of chunks) assert.ok(!chunk.endsWith("\n```"), chunk);
+  assert.equal(chunks.join("\n"), text);
+});
+
+test("re-fences the pieces of an oversized code block", () => {
+  const text = ["```ts", lines("const a", 20), "```"].join("\n");
+  const chunks = splitSlackText(text, 60);
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert.ok(chunk.length <= 60, chunk);
+    assert.ok(chunk.startsWith("```ts\n") && chunk.endsWith("\n```"), chunk);
+  }
+});
+
+test("keeps code before a closing fence on the same line", () => {
+  const text = ["```", lines("x", 15), "last line```"].join("\n");
+  const chunks = splitSlackText(text, 30);
+  assert.ok(chunks.at(-1).endsWith("last line\n```"));
+  assert.ok(!chunks.some((chunk) => chunk.includes("last line```")));
+});
+
+test("does not split a bullet from its continuation lines", () => {
+  const item = "・項目\n  続きの行です\n  さらに続き";
+  const text = [lines("intro ", 3), item].join("\n");
+  const chunks = splitSlackText(text, 40);
+  assert.ok(chunks.includes(item), JSON.stringify(chunks));
+});
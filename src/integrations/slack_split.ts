@@ -0,0 +1,137 @@
+// Slack truncates long message text and rejects section blocks over 3000
+// characters, so long replies are posted as several messages. Chunks stay
+// within the section limit so every one of them can carry blocks.
+export const SLACK_CHUNK_LIMIT = 3000;
+
+const FENCE = /^\s*```/;
+const FENCE_MARK = /```/g;
+const BULLET = /^\s*(?:[・•◦▪]|[-*+]\s|\d+[.)、]\s?)/;
+
+// A line with an odd number of fences opens or closes a block; "```one```"
+// is a whole block on its own line.
+function togglesFence(line: string) {
+  return (line.match(FENCE_MARK) || []).length % 2 === 1;
+}
+
+function opensFence(line: string) {
+  return FENCE.test(line) && togglesFence(line);
+}
+
+// Units are never split unless they are longer than a whole chunk: a fenced
+// code block, a bullet together with its indented continuation lines, or a
+// single line.
+function toUnits(text: string): string[] {
+  const lines = text.split("\n");
+  const units: string[] = [];
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i];
+    if (opensFence(line)) {
+      const block = [line];
+      while (i + 1 < lines.length) {
+        i += 1;
+        block.push(lines[i]);
+        if (togglesFence(lines[i])) break;
+      }
+      units.push(block.join("\n"));
+      continue;
+    }
+    if (BULLET.test(line)) {
+      const item = [line];
+      while (
+        i + 1 < lines.length &&
+        /^[ \t　]+\S/.test(lines[i + 1]) &&
+        !BULLET.test(lines[i + 1])
+      ) {
+        i += 1;
+        item.push(lines[i]);
+      }
+      units.push(item.join("\n"));
+      continue;
+    }
+    units.push(line);
+  }
+  return units;
+}
+
+function hardSplit(text: string, limit: number): string[] {
+  const out: string[] = [];
+  let current = "";
+  for (const line of text.split("\n")) {
+    for (let start = 0; start < Math.max(line.length, 1); start += limit) {
+      const piece = line.slice(start, start + limit);
+      if (current && current.length + 1 + piece.length > limit) {
+        out.push(current);
+        current = piece;
+      } else {
+        current = current ? `${current}\n${piece}` : piece;
+      }
+    }
+  }
+  if (current) out.push(current);
+  return out;
+}
+
+// An oversized code block is cut between lines and every piece is re-fenced,
+// keeping the language tag, so each message still renders as code.
+function splitCodeBlock(block: string, limit: number): string[] {
+  const lines = block.split("\n");
+  const open = lines[0].trim();
+  const closed = lines.length > 1 && togglesFence(lines[lines.length - 1]);
+  const body = lines.slice(1, closed ? -1 : undefined);
+  // A closing fence may end a line of code, as in "last line```".
+  const tail = closed ? lines[lines.length - 1].replace(/```\s*$/, "") : "";
+  if (tail.trim()) body.push(tail);
+  const room = limit - open.length - "\n\n```".length;
+  return hardSplit(body.join("\n"), Math.max(room, 1)).map(
+    (piece) => `${open}\n${piece}\n\`\`\``,
+  );
+}
+
+function splitUnit(unit: string, limit: number): string[] {
+  if (unit.length <= limit) return [unit];
+  return opensFence(unit.split("\n")[0])
+    ? splitCodeBlock(unit, limit)
+    : hardSplit(unit, limit);
+}
+
+export function splitSlackText(
+  text: string,
+  limit: number = SLACK_CHUNK_LIMIT,
+): string[] {
+  const source = (text || "").trim();
+  if (source.length <= limit) return [source];
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+  // Index in `current` just after the last blank line, the preferred place
+  // to break when the chunk is already reasonably full.
+  let paragraphBreak = -1;
+
+  const flush = (upTo = current.length) => {
+    const text = current.slice(0, upTo).join("\n").trim();
+    if (text) chunks.push(text);
+    current = current.slice(upTo);
+    length = current.reduce((sum, u) => sum + u.length + 1, 0);
+    paragraphBreak = -1;
+  };
+
+  for (const unit of toUnits(source)) {
+    for (const piece of splitUnit(unit, limit)) {
+      if (length + piece.length > limit && current.length) {
+        const breakAt =
+          paragraphBreak > 0 &&
+          current.slice(0, paragraphBreak).join("\n").length > limit / 2
+            ? paragraphBreak
+            : current.length;
+        flush(breakAt);
+        if (length + piece.length > limit) flush();
+      }
+      current.push(piece);
+      length += piece.length + 1;
+      if (!piece.trim()) paragraphBreak = current.length;
+    }
+  }
+  flush();
+  return chunks.length ? chunks : [""];
+}
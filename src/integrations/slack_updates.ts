@@ -0,0 +1,59 @@
+import { logger } from "./logger.js";
+
+// Slack rate-limits chat.update (Tier 3, roughly one call per second per
+// channel), so streamed output is coalesced: only the latest value is sent,
+// at most once per interval, and calls never overlap.
+export type ThrottledUpdater<T> = {
+  push: (value: T) => void;
+  flush: (value?: T) => Promise<void>;
+  cancel: () => void;
+};
+
+export function createThrottledUpdater<T>({
+  update,
+  intervalMs = 1500,
+}: {
+  update: (value: T) => Promise<unknown>;
+  intervalMs?: number;
+}): ThrottledUpdater<T> {
+  let latest: { value: T } | null = null;
+  let lastSentAt = 0;
+  let timer: NodeJS.Timeout | null = null;
+  let inflight: Promise<void> = Promise.resolve();
+
+  const send = () => {
+    timer = null;
+    if (!latest) return;
+    const { value } = latest;
+    latest = null;
+    lastSentAt = Date.now();
+    inflight = inflight
+      .then(() => update(value))
+      .then(
+        () => undefined,
+        (err) => {
+          logger.warn("slack update failed", { error: err?.message });
+        },
+      );
+  };
+
+  return {
+    push: (value) => {
+      latest = { value };
+      if (timer) return;
+      const wait = Math.max(0, lastSentAt + intervalMs - Date.now());
+      timer = setTimeout(send, wait);
+    },
+    flush: async (value) => {
+      if (timer) clearTimeout(timer);
+      if (value !== undefined) latest = { value };
+      send();
+      await inflight;
+    },
+    cancel: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      latest = null;
+    },
+  };
+}
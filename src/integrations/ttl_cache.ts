@@ -0,0 +1,53 @@
+// Small in-memory cache for Slack lookups. Concurrent misses for the same key
+// share one load, and failed loads are not cached.
+export type TtlCache<T> = {
+  get: (key: string, load: () => Promise<T>) => Promise<T>;
+  peek: (key: string) => T | undefined;
+  delete: (key: string) => void;
+  clear: () => void;
+};
+
+export function createTtlCache<T>({
+  ttlMs,
+  maxEntries = 1000,
+}: {
+  ttlMs: number;
+  maxEntries?: number;
+}): TtlCache<T> {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  const loading = new Map<string, Promise<T>>();
+
+  const peek = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  };
+
+  return {
+    get: (key, load) => {
+      const cached = peek(key);
+      if (cached !== undefined) return Promise.resolve(cached);
+      const pending = loading.get(key);
+      if (pending) return pending;
+      const promise = load()
+        .then((value) => {
+          entries.delete(key);
+          entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+          while (entries.size > maxEntries) {
+            entries.delete(entries.keys().next().value);
+          }
+          return value;
+        })
+        .finally(() => loading.delete(key));
+      loading.set(key, promise);
+      return promise;
+    },
+    peek,
+    delete: (key) => entries.delete(key),
+    clear: () => entries.clear(),
+  };
+}
@@ -0,0 +1,89 @@
+import { mkdirSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { isDirectMessageChannel } from "../integrations/slack_api.js";
+
+// Who may trigger model runs, from comma-separated Slack IDs. An unset
+// allowlist allows everyone; denylists always win. Channel lists do not
+// apply to DMs, which are governed by the user lists alone.
+export type AccessPolicy = {
+  allowedChannels: Set<string> | null;
+  deniedChannels: Set<string>;
+  allowedUsers: Set<string> | null;
+  deniedUsers: Set<string>;
+  // Users whose runs may use a repository workdir; null means everyone.
+  workdirUsers: Set<string> | null;
+};
+
+export type AccessDecision =
+  | { ok: true }
+  | { ok: false; reason: "channel" | "user" };
+
+export const ACCESS_DENIED_TEXT: Record<"channel" | "user", string> = {
+  channel: "🔒 このチャンネルではエージェントを利用できません。",
+  user: "🔒 エージェントの利用が許可されていません。",
+};
+
+export const WORKDIR_DENIED_TEXT =
+  "作業ディレクトリを設定できるのは許可されたユーザーだけです";
+
+function readIds(value: string | undefined): Set<string> | null {
+  const ids = (value || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return ids.length ? new Set(ids) : null;
+}
+
+export function loadAccessPolicy(
+  env: NodeJS.ProcessEnv = process.env,
+): AccessPolicy {
+  return {
+    allowedChannels: readIds(env.ALLOWED_CHANNELS),
+    deniedChannels: readIds(env.DENIED_CHANNELS) || new Set(),
+    allowedUsers: readIds(env.ALLOWED_USERS),
+    deniedUsers: readIds(env.DENIED_USERS) || new Set(),
+    workdirUsers: readIds(env.WORKDIR_ALLOWED_USERS),
+  };
+}
+
+export function checkAccess(
+  policy: AccessPolicy,
+  { userId, channelId }: { userId?: string; channelId?: string },
+): AccessDecision {
+  if (userId) {
+    if (policy.deniedUsers.has(userId)) return { ok: false, reason: "user" };
+    if (policy.allowedUsers && !policy.allowedUsers.has(userId)) {
+      return { ok: false, reason: "user" };
+    }
+  }
+  if (channelId && !isDirectMessageChannel(channelId)) {
+    if (policy.deniedChannels.has(channelId)) {
+      return { ok: false, reason: "channel" };
+    }
+    if (policy.allowedChannels && !policy.allowedChannels.has(channelId)) {
+      return { ok: false, reason: "channel" };
+    }
+  }
+  return { ok: true };
+}
+
+export function canUseRepoWorkdir(policy: AccessPolicy, userId?: string) {
+  if (!policy.workdirUsers) return true;
+  return Boolean(userId && policy.workdirUsers.has(userId));
+}
+
+// An empty directory outside the repository and DATA_DIR, for runs that may
+// not look at code.
+export function getSandboxDir() {
+  const dir = path.join(os.tmpdir(), "slack-agent-sandbox");
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+let defaultPolicy: AccessPolicy | null = null;
+
+export function getAccessPolicy(): AccessPolicy {
+  if (!defaultPolicy) defaultPolicy = loadAccessPolicy();
+  return defaultPolicy;
+}
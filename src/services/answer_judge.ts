@@ -0,0 +1,149 @@
+import type {
+  ModelBackend,
+  ModelImage,
+  ModelOptions,
+} from "../integrations/model_backend.js";
+import { createModelError } from "../integrations/model_errors.js";
+import { extractJsonObject } from "./structured_output.js";
+
+const JUDGE_TIMEOUT_MS = 90_000;
+const MAX_GAPS = 5;
+const DEFAULT_TARGET_SCORE = 85;
+const DEFAULT_MIN_GAIN = 3;
+const MAX_DRAFT_CANDIDATES = 4;
+
+// One judged candidate. The criteria are 0-10 as returned by the model;
+// score is their weighted sum on a 0-100 scale.
+export type QualityScore = {
+  pass: number;
+  score: number;
+  correctness: number;
+  coverage: number;
+  formatting: number;
+  gaps: string[];
+};
+
+export type JudgeValidation =
+  | { ok: true; score: Omit<QualityScore, "pass"> }
+  | { ok: false; errors: string[] };
+
+// Correctness matters most; formatting slips are also fixed by the linter.
+const WEIGHTS = { correctness: 0.5, coverage: 0.3, formatting: 0.2 };
+
+const readNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Refinement stops once a candidate reaches targetScore, or when a pass
+// improves the best score by less than minGain points.
+export function getJudgeConfig() {
+  return {
+    targetScore: readNumber(
+      "CODEX_REFINE_TARGET_SCORE",
+      DEFAULT_TARGET_SCORE,
+    ),
+    minGain: readNumber("CODEX_REFINE_MIN_GAIN", DEFAULT_MIN_GAIN),
+    draftCandidates: Math.min(
+      Math.floor(readNumber("CODEX_DRAFT_CANDIDATES", 1)),
+      MAX_DRAFT_CANDIDATES,
+    ),
+  };
+}
+
+export function validateJudgement(value: unknown): JudgeValidation {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { ok: false, errors: ["top level must be a JSON object"] };
+  }
+  const judgement = value as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of Object.keys(WEIGHTS)) {
+    const n = judgement[key];
+    if (typeof n !== "number" || !Number.isFinite(n) || n < 0 || n > 10) {
+      errors.push(`${key} must be a number from 0 to 10`);
+    }
+  }
+  const gaps = judgement.gaps;
+  if (!Array.isArray(gaps) || gaps.some((g) => typeof g !== "string")) {
+    errors.push("gaps must be an array of strings");
+  }
+  if (errors.length) return { ok: false, errors };
+  const criteria = {
+    correctness: judgement.correctness as number,
+    coverage: judgement.coverage as number,
+    formatting: judgement.formatting as number,
+  };
+  const score = Object.entries(WEIGHTS).reduce(
+    (sum, [key, weight]) => sum + criteria[key] * weight * 10,
+    0,
+  );
+  return {
+    ok: true,
+    score: {
+      ...criteria,
+      score: Math.round(score),
+      gaps: (gaps as string[])
+        .map((g) => g.trim())
+        .filter(Boolean)
+        .slice(0, MAX_GAPS),
+    },
+  };
+}
+
+export function parseJudgeJson(output: string): JudgeValidation {
+  const parsed = extractJsonObject(output);
+  return parsed.ok === true ? validateJudgement(parsed.value) : parsed;
+}
+
+// Scores one candidate answer. Judging runs without web search: it checks
+// the answer against the request and context, not against fresh sources.
+export async function judgeAnswer({
+  prompt,
+  pass,
+  backend,
+  workdir,
+  signal,
+  modelOptions,
+  images,
+}: {
+  prompt: string;
+  pass: number;
+  backend: ModelBackend;
+  workdir: string;
+  signal?: AbortSignal;
+  modelOptions?: ModelOptions;
+  images?: ModelImage[];
+}): Promise<QualityScore> {
+  const { text } = await backend.run({
+    prompt,
+    purpose: "judge",
+    cwd: workdir,
+    signal,
+    timeoutMs: JUDGE_TIMEOUT_MS,
+    options: { ...modelOptions, webSearch: false },
+    images,
+  });
+  const result = parseJudgeJson(text);
+  if (result.ok === false) {
+    throw createModelError(
+      "model_error",
+      `Invalid judgement: ${result.errors.join("; ")}`,
+    );
+  }
+  return { pass, ...result.score };
+}
+
+// Whether another refine pass is worth running after `scores` (oldest
+// first, one per judged candidate of the loop).
+export function shouldRefineAgain(
+  scores: QualityScore[],
+  { targetScore, minGain }: { targetScore: number; minGain: number },
+): boolean {
+  const latest = scores.at(-1);
+  if (!latest) return true;
+  const best = Math.max(...scores.map((s) => s.score));
+  if (best >= targetScore) return false;
+  if (scores.length < 2) return true;
+  const previousBest = Math.max(...scores.slice(0, -1).map((s) => s.score));
+  return latest.score - previousBest >= minGain;
+}
@@ -0,0 +1,166 @@
+import type { ModalView, PlainTextOption } from "@slack/web-api";
+import { ASK_MESSAGE_VIEW } from "../integrations/slack_blocks.js";
+
+export type AskAction =
+  | "explain"
+  | "summarize_thread"
+  | "translate"
+  | "draft_reply"
+  | "question";
+
+// The message the shortcut was used on, carried through the modal.
+export type AskTarget = {
+  channelId: string;
+  messageTs: string;
+  threadTs: string;
+};
+
+const PREVIEW_CHAR_LIMIT = 300;
+
+// Label shown in the modal and the request sent to the model. The request
+// reads like a mention, so the reply flow needs no special case.
+const ACTIONS: Record<AskAction, { label: string; request: string }> = {
+  explain: {
+    label: "わかりやすく説明",
+    request:
+      "選んだメッセージの内容を、前提知識がない人にもわかるように説明して。",
+  },
+  summarize_thread: {
+    label: "スレッドを要約",
+    request:
+      "選んだメッセージのスレッドを要約して。決まったことと未解決の点も。",
+  },
+  translate: {
+    label: "翻訳",
+    request:
+      "選んだメッセージを翻訳して。日本語なら英語に、それ以外なら日本語に。",
+  },
+  draft_reply: {
+    label: "返信の下書き",
+    request:
+      "選んだメッセージへの返信の下書きを作って。そのまま投稿できる文面で。",
+  },
+  question: {
+    label: "自由に質問",
+    request: "",
+  },
+};
+
+function option(action: AskAction): PlainTextOption {
+  return {
+    text: { type: "plain_text", text: ACTIONS[action].label },
+    value: action,
+  };
+}
+
+export function buildAskMessageModal(
+  target: AskTarget,
+  messageText: string,
+): ModalView {
+  const options = (Object.keys(ACTIONS) as AskAction[]).map(option);
+  const preview =
+    messageText.length > PREVIEW_CHAR_LIMIT
+      ? `${messageText.slice(0, PREVIEW_CHAR_LIMIT)}…`
+      : messageText;
+  return {
+    type: "modal",
+    callback_id: ASK_MESSAGE_VIEW,
+    private_metadata: JSON.stringify(target),
+    title: { type: "plain_text", text: "エージェントに聞く" },
+    submit: { type: "plain_text", text: "送信" },
+    close: { type: "plain_text", text: "閉じる" },
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: preview
+            ? preview
+                .split("\n")
+                .map((line) => `> ${line}`)
+                .join("\n")
+            : "_（本文のないメッセージ）_",
+        },
+      },
+      {
+        type: "input",
+        block_id: "action",
+        label: { type: "plain_text", text: "やること" },
+        element: {
+          type: "static_select",
+          action_id: "value",
+          options,
+          initial_option: options[0],
+        },
+      },
+      {
+        type: "input",
+        block_id: "question",
+        optional: true,
+        label: { type: "plain_text", text: "質問・補足" },
+        element: {
+          type: "plain_text_input",
+          action_id: "value",
+          multiline: true,
+          placeholder: {
+            type: "plain_text",
+            text: "「自由に質問」では必須。他のやることでは補足として使います",
+          },
+        },
+      },
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: "回答はこのメッセージのスレッドに投稿されます。",
+          },
+        ],
+      },
+    ],
+  };
+}
+
+type SubmittedValues = Record<
+  string,
+  Record<
+    string,
+    { value?: string | null; selected_option?: { value: string } | null }
+  >
+>;
+
+// Turns the submission into the text of the request. Errors are keyed by
+// block_id for `response_action: "errors"`.
+export function parseAskMessageSubmission(values: SubmittedValues): {
+  slackText: string;
+  // What the user typed, when slackText starts with a canned request.
+  userText?: string;
+  errors: Record<string, string>;
+} {
+  const selected = values?.action?.value?.selected_option?.value as AskAction;
+  const action = ACTIONS[selected] ? selected : "explain";
+  const question = (values?.question?.value?.value || "").trim();
+  if (action === "question" && !question) {
+    return {
+      slackText: "",
+      errors: { question: "質問を入力してください" },
+    };
+  }
+  const request = ACTIONS[action].request;
+  const slackText =
+    request && question
+      ? `${request}\n補足: ${question}`
+      : request || question;
+  return { slackText, userText: request ? question : undefined, errors: {} };
+}
+
+export function parseAskTarget(metadata: string): AskTarget | null {
+  try {
+    const target = JSON.parse(metadata) as AskTarget;
+    return target.channelId && target.messageTs && target.threadTs
+      ? target
+      : null;
+  } catch {
+    return null;
+  }
+}
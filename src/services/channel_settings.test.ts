@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import { parseChannelConfigSubmission } from "./channel_settings.js";
+
+// The registry and allowed roots are read on first use.
+const base = mkdtempSync(path.join(os.tmpdir(), "channel-settings-"));
+const repoDir = path.join(base, "repo");
+const allowedRoot = path.join(base, "allowed");
+const outside = path.join(base, "outside");
+for (const dir of [repoDir, path.join(allowedRoot, "sub"), outside]) {
+  mkdirSync(dir, { recursive: true });
+}
+const reposFile = path.join(base, "repos.json");
+const repos = { repos: [{ id: "bot", path: repoDir }] };
+writeFileSync(reposFile, JSON.stringify(repos));
+process.env.REPOS_FILE = reposFile;
+process.env.WORKDIR_ALLOWED_ROOTS = allowedRoot;
+
+after(() => rmSync(base, { recursive: true, force: true }));
+
+const submit = (workdir: string) =>
+  parseChannelConfigSubmission({ workdir: { value: { value: workdir } } });
+
+test("accepts a registered repository by id or path", () => {
+  assert.deepEqual(submit("bot"), {
+    settings: { workdir: repoDir },
+    errors: {},
+  });
+  assert.deepEqual(submit(repoDir).settings, { workdir: repoDir });
+});
+
+test("accepts directories under an allowed root", () => {
+  const sub = path.join(allowedRoot, "sub");
+  assert.deepEqual(submit(sub), { settings: { workdir: sub }, errors: {} });
+});
+
+test("rejects directories outside the registry and allowed roots", () => {
+  for (const dir of ["/", os.homedir(), outside, `${allowedRoot}-x`]) {
+    const { settings, errors } = submit(dir);
+    assert.equal(settings.workdir, undefined, dir);
+    assert.ok(errors.workdir, dir);
+  }
+});
+
+test("rejects an allowed root escaped with ..", () => {
+  const { errors } = submit(path.join(allowedRoot, "..", "outside"));
+  assert.ok(errors.workdir);
+});
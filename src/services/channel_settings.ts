@@ -0,0 +1,307 @@
+import { realpathSync, statSync } from "node:fs";
+import path from "node:path";
+import type { ModalView, PlainTextOption } from "@slack/web-api";
+import { createJsonStore } from "../integrations/json_store.js";
+import type { ModelOptions } from "../integrations/model_backend.js";
+import { AGENT_CONFIG_VIEW } from "../integrations/slack_blocks.js";
+import {
+  findRepo,
+  findRepoByPath,
+  getRepoRegistry,
+} from "./repo_registry.js";
+
+// Unset fields fall back to the process-wide environment configuration.
+export type ChannelSettings = {
+  maxRefines?: number;
+  model?: string;
+  reasoningEffort?: string;
+  webSearch?: boolean;
+  workdir?: string;
+  updatedBy?: string;
+  updatedAt?: number;
+};
+
+export type ChannelConfig = {
+  // Only set when the channel overrides the repository registry.
+  workdir?: string;
+  maxRefines?: number;
+  modelOptions: ModelOptions;
+};
+
+const MAX_REFINES_LIMIT = 6;
+const REASONING_EFFORTS = ["minimal", "low", "medium", "high"];
+const MODEL_PATTERN = /^[\w.:/-]{1,64}$/;
+const DEFAULT_VALUE = "default";
+
+const store = createJsonStore<Record<string, ChannelSettings>>(
+  "channel_settings",
+  () => ({}),
+);
+
+export function getChannelSettings(channelId: string): ChannelSettings {
+  return store.read()[channelId] || {};
+}
+
+export async function saveChannelSettings(
+  channelId: string,
+  settings: ChannelSettings,
+) {
+  await store.update((all) => {
+    all[channelId] = settings;
+  });
+}
+
+export async function clearChannelSettings(channelId: string) {
+  await store.update((all) => {
+    delete all[channelId];
+  });
+}
+
+function realpath(dir: string) {
+  try {
+    return realpathSync(dir);
+  } catch {
+    return null;
+  }
+}
+
+// A channel may only point at a registered repository or at a directory
+// under one of WORKDIR_ALLOWED_ROOTS; anything else (e.g. "/etc") would put
+// the agent's sandbox there for every member of the channel.
+export function isAllowedWorkdir(dir: string) {
+  const real = realpath(dir);
+  if (!real) return false;
+  const registry = getRepoRegistry();
+  if (findRepoByPath(registry, dir) || findRepoByPath(registry, real)) {
+    return true;
+  }
+  return (process.env.WORKDIR_ALLOWED_ROOTS || "")
+    .split(",")
+    .map((root) => root.trim())
+    .filter((root) => path.isAbsolute(root))
+    .map(realpath)
+    .some(
+      (root) => root && (real === root || real.startsWith(`${root}${path.sep}`)),
+    );
+}
+
+export function resolveChannelConfig(channelId: string): ChannelConfig {
+  const settings = getChannelSettings(channelId);
+  return {
+    // Settings saved before the allowlist existed are checked again.
+    workdir:
+      settings.workdir && isAllowedWorkdir(settings.workdir)
+        ? settings.workdir
+        : undefined,
+    maxRefines: settings.maxRefines,
+    modelOptions: {
+      model: settings.model,
+      reasoningEffort: settings.reasoningEffort,
+      webSearch: settings.webSearch,
+    },
+  };
+}
+
+export function describeChannelSettings(settings: ChannelSettings): string {
+  const show = (value: unknown) =>
+    value === undefined ? "デフォルト" : String(value);
+  return [
+    `• 改善回数: ${show(settings.maxRefines)}`,
+    `• モデル: ${show(settings.model)}`,
+    `• 推論強度: ${show(settings.reasoningEffort)}`,
+    `• Web検索: ${show(
+      settings.webSearch === undefined
+        ? undefined
+        : settings.webSearch
+          ? "on"
+          : "off",
+    )}`,
+    `• 作業ディレクトリ: ${show(settings.workdir)}`,
+  ].join("\n");
+}
+
+function option(text: string, value: string): PlainTextOption {
+  return { text: { type: "plain_text", text }, value };
+}
+
+function selectBlock(
+  blockId: string,
+  label: string,
+  options: PlainTextOption[],
+  current: string,
+) {
+  return {
+    type: "input" as const,
+    block_id: blockId,
+    optional: true,
+    label: { type: "plain_text" as const, text: label },
+    element: {
+      type: "static_select" as const,
+      action_id: "value",
+      options,
+      initial_option:
+        options.find((o) => o.value === current) || options[0],
+    },
+  };
+}
+
+function textBlock(
+  blockId: string,
+  label: string,
+  current: string | undefined,
+  placeholder: string,
+) {
+  return {
+    type: "input" as const,
+    block_id: blockId,
+    optional: true,
+    label: { type: "plain_text" as const, text: label },
+    element: {
+      type: "plain_text_input" as const,
+      action_id: "value",
+      placeholder: { type: "plain_text" as const, text: placeholder },
+      ...(current ? { initial_value: current } : {}),
+    },
+  };
+}
+
+export function buildChannelConfigModal(
+  channelId: string,
+  settings: ChannelSettings,
+): ModalView {
+  const refineOptions = [
+    option("デフォルト", DEFAULT_VALUE),
+    option("0（1回で回答）", "0"),
+    ...Array.from({ length: MAX_REFINES_LIMIT }, (_, i) =>
+      option(String(i + 1), String(i + 1)),
+    ),
+  ];
+  const effortOptions = [
+    option("デフォルト", DEFAULT_VALUE),
+    ...REASONING_EFFORTS.map((e) => option(e, e)),
+  ];
+  const webSearchOptions = [
+    option("デフォルト", DEFAULT_VALUE),
+    option("on", "on"),
+    option("off", "off"),
+  ];
+  return {
+    type: "modal",
+    callback_id: AGENT_CONFIG_VIEW,
+    private_metadata: channelId,
+    title: { type: "plain_text", text: "エージェント設定" },
+    submit: { type: "plain_text", text: "保存" },
+    close: { type: "plain_text", text: "閉じる" },
+    blocks: [
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `<#${channelId}> での返信と /nomikai の設定です。空欄・「デフォルト」は全体設定を使います。`,
+          },
+        ],
+      },
+      selectBlock(
+        "max_refines",
+        "改善回数（追加パス数）",
+        refineOptions,
+        settings.maxRefines === undefined
+          ? DEFAULT_VALUE
+          : String(settings.maxRefines),
+      ),
+      textBlock("model", "モデル", settings.model, "例: gpt-5.2"),
+      selectBlock(
+        "reasoning_effort",
+        "推論強度",
+        effortOptions,
+        settings.reasoningEffort || DEFAULT_VALUE,
+      ),
+      selectBlock(
+        "web_search",
+        "Web検索",
+        webSearchOptions,
+        settings.webSearch === undefined
+          ? DEFAULT_VALUE
+          : settings.webSearch
+            ? "on"
+            : "off",
+      ),
+      textBlock(
+        "workdir",
+        "作業ディレクトリ",
+        settings.workdir,
+        "例: /srv/repos/my-agent-workbench またはリポジトリID",
+      ),
+    ],
+  };
+}
+
+type SubmittedField = {
+  value?: string | null;
+  selected_option?: { value: string } | null;
+};
+
+type SubmittedValues = Record<string, Record<string, SubmittedField>>;
+
+// Reads the modal submission. Errors are keyed by block_id so they can be
+// returned to Slack as `response_action: "errors"`.
+export function parseChannelConfigSubmission(values: SubmittedValues): {
+  settings: ChannelSettings;
+  errors: Record<string, string>;
+} {
+  const read = (blockId: string) => {
+    const field = values?.[blockId]?.value;
+    const raw = field?.selected_option?.value ?? field?.value ?? "";
+    const trimmed = raw.trim();
+    return trimmed === DEFAULT_VALUE ? "" : trimmed;
+  };
+  const settings: ChannelSettings = {};
+  const errors: Record<string, string> = {};
+
+  const maxRefines = read("max_refines");
+  if (maxRefines) settings.maxRefines = Number(maxRefines);
+
+  const model = read("model");
+  if (model) {
+    if (MODEL_PATTERN.test(model)) {
+      settings.model = model;
+    } else {
+      errors.model = "英数字と . : / - _ のみ、64文字以内で入力してください";
+    }
+  }
+
+  const effort = read("reasoning_effort");
+  if (effort && REASONING_EFFORTS.includes(effort)) {
+    settings.reasoningEffort = effort;
+  }
+
+  const webSearch = read("web_search");
+  if (webSearch) settings.webSearch = webSearch === "on";
+
+  // A registered repo id or keyword stands for its checkout.
+  const workdirInput = read("workdir");
+  const workdir =
+    (workdirInput && findRepo(getRepoRegistry(), workdirInput)?.path) ||
+    workdirInput;
+  if (workdir) {
+    let isDirectory = false;
+    try {
+      isDirectory =
+        path.isAbsolute(workdir) && statSync(workdir).isDirectory();
+    } catch {
+      isDirectory = false;
+    }
+    if (!isDirectory) {
+      errors.workdir =
+        "サーバー上に存在するディレクトリの絶対パスか、リポジトリIDを入力してください";
+    } else if (!isAllowedWorkdir(workdir)) {
+      errors.workdir =
+        "登録済みのリポジトリか、許可されたディレクトリ配下のパスだけ指定できます";
+    } else {
+      settings.workdir = workdir;
+    }
+  }
+
+  return { settings, errors };
+}
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  createCancelledError,
+  isCancelledError,
+} from "../integrations/model_errors.js";
+import type {
+  SlackContext,
+  SlackContextMessage,
+} from "../integrations/slack_api.js";
+import { packSlackContext, type ThreadSummarizer } from "./context_packer.js";
+
+// A thread too long for a 400-token budget. Each test uses its own root so
+// summaries cached by other tests do not leak in.
+function longThread(rootTs: string): SlackContext {
+  const message = (i: number): SlackContextMessage => ({
+    user: "U1",
+    text: `メッセージ${i} ${"長い本文".repeat(20)}`,
+    ts: `${rootTs}${i}`,
+    thread_ts: rootTs,
+  });
+  return {
+    channel_id: "C1",
+    thread_messages: Array.from({ length: 20 }, (_, i) => message(i)),
+  };
+}
+
+function pack(
+  slackContext: SlackContext,
+  summarize: ThreadSummarizer,
+  signal?: AbortSignal,
+) {
+  return packSlackContext({
+    slackText: "まとめて",
+    slackContext,
+    budgetTokens: 400,
+    summarize,
+    signal,
+  });
+}
+
+// Resolves after a short delay, or rejects as cancelled when signal aborts.
+function summarizer(text: string, signal?: AbortSignal): ThreadSummarizer {
+  return () =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => resolve(text), 30);
+      signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(createCancelledError());
+      });
+    });
+}
+
+test("summarizes thread messages that do not fit", async () => {
+  const packed = await pack(longThread("1.1"), summarizer("要約"));
+  assert.equal(packed.thread_summary, "要約");
+  assert.ok(packed.omitted_thread_messages > 0);
+  assert.ok(packed.thread_messages.length < 20);
+});
+
+test("drops the messages when the summary fails", async () => {
+  const packed = await pack(longThread("2.1"), async () => {
+    throw new Error("backend down");
+  });
+  assert.equal(packed.thread_summary, undefined);
+  assert.ok(packed.omitted_thread_messages > 0);
+});
+
+test("another job's cancellation does not cancel a shared summary", async () => {
+  const context = longThread("3.1");
+  const first = new AbortController();
+  const cancelled = pack(
+    context,
+    summarizer("一つ目", first.signal),
+    first.signal,
+  );
+  const other = pack(context, summarizer("二つ目"));
+  setTimeout(() => first.abort(), 5);
+
+  await assert.rejects(cancelled, isCancelledError);
+  const packed = await other;
+  assert.equal(packed.thread_summary, "二つ目");
+});
+
+test("a job's own cancellation is rethrown", async () => {
+  const controller = new AbortController();
+  const packing = pack(
+    longThread("4.1"),
+    summarizer("要約", controller.signal),
+    controller.signal,
+  );
+  controller.abort();
+  await assert.rejects(packing, isCancelledError);
+});
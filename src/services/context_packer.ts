@@ -0,0 +1,180 @@
+import {
+  type SlackContext,
+  type SlackContextMessage,
+} from "../integrations/slack_api.js";
+import { createTtlCache } from "../integrations/ttl_cache.js";
+import { isCancelledError } from "../integrations/model_errors.js";
+import { logger } from "../integrations/logger.js";
+import { type ConversationTurn } from "./thread_sessions.js";
+
+export type PackedSlackContext = SlackContext & {
+  // Model-written summary of thread messages that did not fit the budget.
+  thread_summary?: string;
+  omitted_thread_messages?: number;
+  omitted_recent_messages?: number;
+};
+
+export type ThreadSummarizer = (
+  messages: SlackContextMessage[],
+) => Promise<string>;
+
+const DEFAULT_BUDGET_TOKENS = 6000;
+const MESSAGE_CHAR_LIMIT = 1200;
+// Share of the budget kept for the summary of older thread messages.
+const SUMMARY_SHARE = 0.15;
+// Thread replies are worth more than the channel around them.
+const THREAD_SHARE = 0.7;
+const SUMMARY_TTL_MS = 6 * 60 * 60 * 1000;
+
+const summaryCache = createTtlCache<string>({
+  ttlMs: SUMMARY_TTL_MS,
+  maxEntries: 500,
+});
+
+export function getContextBudget() {
+  const value = Number(process.env.PROMPT_CONTEXT_TOKENS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_BUDGET_TOKENS;
+}
+
+// Rough token estimate without a tokenizer: CJK characters are about one
+// token each, everything else about four characters per token.
+export function estimateTokens(value: unknown): number {
+  const text = typeof value === "string" ? value : JSON.stringify(value ?? "");
+  let wide = 0;
+  for (const ch of text) {
+    if (ch.codePointAt(0) >= 0x2e80) wide += 1;
+  }
+  return Math.ceil(wide + (text.length - wide) / 4);
+}
+
+function clipMessage(m: SlackContextMessage): SlackContextMessage {
+  return m.text.length > MESSAGE_CHAR_LIMIT
+    ? { ...m, text: `${m.text.slice(0, MESSAGE_CHAR_LIMIT)}…` }
+    : m;
+}
+
+// Takes messages in priority order while they fit; returns what was kept
+// and what was left out.
+function takeWithin(messages: SlackContextMessage[], budget: number) {
+  const kept: SlackContextMessage[] = [];
+  let used = 0;
+  let i = 0;
+  for (; i < messages.length; i += 1) {
+    const cost = estimateTokens(messages[i]);
+    if (used + cost > budget) break;
+    kept.push(messages[i]);
+    used += cost;
+  }
+  return { kept, rest: messages.slice(i), used };
+}
+
+// Keyed by the newest omitted message, so the summary is only rebuilt once
+// more of the thread falls out of the budget. Failures are not cached and
+// fall back to dropping the messages. Concurrent jobs share one load, which
+// runs with the first job's signal: when that job is cancelled, the others
+// start a load of their own instead of ending as cancelled too.
+async function summarizeOnce(
+  key: string,
+  messages: SlackContextMessage[],
+  summarize: ThreadSummarizer,
+  signal?: AbortSignal,
+): Promise<string | null> {
+  const load = () =>
+    summaryCache.get(key, async () => {
+      const summary = (await summarize(messages)).trim();
+      if (!summary) throw new Error("Empty summary.");
+      return summary;
+    });
+  try {
+    return await load().catch((e) => {
+      if (isCancelledError(e) && !signal?.aborted) return load();
+      throw e;
+    });
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    logger.warn("thread summary failed", { error: (e as Error)?.message });
+    return null;
+  }
+}
+
+// Fits the Slack context into the prompt budget. The user message, the
+// conversation history, the requester and channel info always stay; then
+// the thread root and newest replies, recent channel messages and finally
+// member names fill what is left. Older thread replies are summarized once
+// per thread (and reused by refine passes and later mentions) or dropped.
+export async function packSlackContext({
+  slackText,
+  slackContext,
+  history,
+  budgetTokens = getContextBudget(),
+  summarize,
+  signal,
+}: {
+  slackText: string;
+  slackContext: SlackContext | null;
+  history?: ConversationTurn[];
+  budgetTokens?: number;
+  summarize?: ThreadSummarizer;
+  // The job's signal; summarize is expected to honour the same one.
+  signal?: AbortSignal;
+}): Promise<PackedSlackContext | null> {
+  if (!slackContext) return null;
+  const {
+    recent_messages,
+    thread_messages,
+    channel_members,
+    ...base
+  } = slackContext;
+  const packed: PackedSlackContext = { ...base };
+
+  let remaining =
+    budgetTokens -
+    estimateTokens(slackText) -
+    estimateTokens(history || []) -
+    estimateTokens(base);
+
+  const thread = (thread_messages || []).map(clipMessage);
+  if (thread.length) {
+    const [root, ...replies] = thread;
+    const summaryReserve = summarize
+      ? Math.floor(budgetTokens * SUMMARY_SHARE)
+      : 0;
+    const threadBudget =
+      Math.max(0, remaining - summaryReserve) * THREAD_SHARE -
+      estimateTokens(root);
+    const newest = takeWithin([...replies].reverse(), threadBudget);
+    packed.thread_messages = [root, ...newest.kept.reverse()];
+    remaining -= estimateTokens(root) + newest.used;
+
+    const omitted = newest.rest.reverse();
+    if (omitted.length) {
+      packed.omitted_thread_messages = omitted.length;
+      const summary = summarize
+        ? await summarizeOnce(
+            `${base.channel_id}:${root.ts}:${omitted[omitted.length - 1].ts}`,
+            omitted,
+            summarize,
+            signal,
+          )
+        : null;
+      if (summary) {
+        packed.thread_summary = summary;
+        remaining -= estimateTokens(summary);
+      }
+    }
+  }
+
+  // Slack returns channel history newest first.
+  const recent = takeWithin(
+    (recent_messages || []).map(clipMessage),
+    Math.max(0, remaining),
+  );
+  if (recent_messages) packed.recent_messages = recent.kept;
+  if (recent.rest.length) packed.omitted_recent_messages = recent.rest.length;
+  remaining -= recent.used;
+
+  if (channel_members && estimateTokens(channel_members) <= remaining) {
+    packed.channel_members = channel_members;
+  }
+  return packed;
+}
@@ -0,0 +1,226 @@
+import {
+  CANCELLED_TEXT,
+  describeModelError,
+  isCancelledError,
+  toModelError,
+} from "../integrations/model_errors.js";
+import {
+  getModelBackend,
+  type ModelBackend,
+  type ModelOptions,
+} from "../integrations/model_backend.js";
+import {
+  fetchChannelHistory,
+  type SlackHistoryMessage,
+} from "../integrations/slack_api.js";
+import { lintSlackMrkdwn } from "../integrations/slack_formatters.js";
+import { logger } from "../integrations/logger.js";
+import { redactPromptInput } from "../integrations/redaction.js";
+import { estimateTokens } from "./context_packer.js";
+import { getDefaultPromptLocale, renderPrompt } from "./prompt_templates.js";
+
+export const DEFAULT_DIGEST_HOURS = 24;
+export const MAX_DIGEST_HOURS = 168;
+const DEFAULT_BUDGET_TOKENS = 12000;
+const MESSAGE_CHAR_LIMIT = 600;
+
+export type DigestCommand =
+  | { type: "run"; hours: number }
+  | { type: "subscribe"; time: string; hours: number }
+  | { type: "unsubscribe" }
+  | { type: "list" }
+  | { type: "help" }
+  | { type: "invalid"; error: string };
+
+export const DIGEST_USAGE = [
+  "*/digest の使い方*",
+  "• `/digest` 直近24時間のまとめ（`/digest 6h` のように時間指定も可、最大168時間）",
+  "• `/digest subscribe 09:00` 毎日 9:00 にこのチャンネルのまとめを投稿（`/digest subscribe 18:30 12h` で対象期間も指定）",
+  "• `/digest list` このチャンネルと自分が登録した定期ダイジェストの一覧",
+  "• `/digest unsubscribe` このチャンネルの定期ダイジェストを解除",
+].join("\n");
+
+const COMMAND_ALIASES: Record<string, DigestCommand["type"]> = {
+  subscribe: "subscribe",
+  登録: "subscribe",
+  unsubscribe: "unsubscribe",
+  解除: "unsubscribe",
+  list: "list",
+  一覧: "list",
+  help: "help",
+  ヘルプ: "help",
+};
+
+function parseHours(token: string | undefined): number | string {
+  if (!token) return DEFAULT_DIGEST_HOURS;
+  const m = token.match(/^(\d{1,3})(h|時間)?$/i);
+  if (!m) return `期間「${token}」が読めません（例: 12h）`;
+  const hours = Number(m[1]);
+  if (hours < 1 || hours > MAX_DIGEST_HOURS) {
+    return `期間は1〜${MAX_DIGEST_HOURS}時間で指定してください`;
+  }
+  return hours;
+}
+
+function parseClock(token: string | undefined): string | null {
+  const m = (token || "").match(/^(\d{1,2})(?::(\d{2})|時(?:(\d{1,2})分)?)$/);
+  if (!m) return null;
+  const hour = Number(m[1]);
+  const minute = Number(m[2] ?? m[3] ?? 0);
+  if (hour > 23 || minute > 59) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(hour)}:${pad(minute)}`;
+}
+
+export function parseDigestCommand(text: string): DigestCommand {
+  const tokens = (text || "").normalize("NFKC").trim().split(/\s+/);
+  const first = tokens[0] || "";
+  const type = COMMAND_ALIASES[first.toLowerCase()];
+  if (!type) {
+    if (tokens.length > 1) {
+      return {
+        type: "invalid",
+        error: `「${tokens.join(" ")}」が読めません`,
+      };
+    }
+    const hours = parseHours(first || undefined);
+    return typeof hours === "string"
+      ? { type: "invalid", error: hours }
+      : { type: "run", hours };
+  }
+  if (type !== "subscribe") return { type } as DigestCommand;
+  const time = parseClock(tokens[1]);
+  if (!time) {
+    return {
+      type: "invalid",
+      error: "投稿時刻を HH:MM で指定してください（例: `/digest subscribe 09:00`）",
+    };
+  }
+  const hours = parseHours(tokens[2]);
+  return typeof hours === "string"
+    ? { type: "invalid", error: hours }
+    : { type: "subscribe", time, hours };
+}
+
+function getDigestBudget() {
+  const value = Number(process.env.DIGEST_CONTEXT_TOKENS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_BUDGET_TOKENS;
+}
+
+// Keeps the newest messages that fit the budget, oldest first.
+function packMessages(messages: SlackHistoryMessage[], budget: number) {
+  const kept = [];
+  let used = 0;
+  for (const m of [...messages].reverse()) {
+    const entry = {
+      user: m.user_name || m.user,
+      text:
+        m.text.length > MESSAGE_CHAR_LIMIT
+          ? `${m.text.slice(0, MESSAGE_CHAR_LIMIT)}…`
+          : m.text,
+      link: m.permalink,
+      ...(m.reply_count ? { replies: m.reply_count } : {}),
+    };
+    const cost = estimateTokens(entry);
+    if (used + cost > budget) break;
+    kept.push(entry);
+    used += cost;
+  }
+  return { kept: kept.reverse(), omitted: messages.length - kept.length };
+}
+
+// Digests are read by the whole channel, so they use the default locale
+// rather than the language of whoever asked.
+function buildDigestPrompt(
+  channelName: string,
+  hours: number,
+  messages: ReturnType<typeof packMessages>["kept"],
+  omitted: number,
+) {
+  return renderPrompt("digest", getDefaultPromptLocale(), {
+    channelName,
+    hours,
+    omitted,
+    messages: JSON.stringify(messages),
+  });
+}
+
+export type DigestResult = { ok: boolean; text: string; cancelled?: boolean };
+
+// Summarizes the channel's top-level messages of the last `hours`. The bot's
+// own posts (earlier digests, replies) are left out.
+export async function summarizeChannel({
+  token,
+  channelId,
+  hours,
+  workdir,
+  backend = getModelBackend(),
+  signal,
+  modelOptions,
+  now = Date.now(),
+}: {
+  token: string;
+  channelId: string;
+  hours: number;
+  workdir: string;
+  backend?: ModelBackend;
+  signal?: AbortSignal;
+  modelOptions?: ModelOptions;
+  now?: number;
+}): Promise<DigestResult> {
+  const oldest = ((now - hours * 60 * 60 * 1000) / 1000).toFixed(6);
+  let history: Awaited<ReturnType<typeof fetchChannelHistory>>;
+  try {
+    history = await fetchChannelHistory({ token, channelId, oldest });
+  } catch (e) {
+    const error = e?.data?.error || e?.message;
+    logger.warn("digest history failed", { error });
+    return {
+      ok: false,
+      text:
+        error === "not_in_channel"
+          ? "⚠️ このチャンネルの履歴を読めません。ボットをチャンネルに招待してください。"
+          : "⚠️ チャンネルの履歴を取得できませんでした。",
+    };
+  }
+  const channelName = history.channel?.name || channelId;
+  const header = `📰 *#${channelName} のダイジェスト*（直近${hours}時間）`;
+  const messages = history.messages.filter((m) => !m.from_self);
+  if (!messages.length) {
+    return {
+      ok: true,
+      text: `${header}\nこの期間の投稿はありませんでした。`,
+    };
+  }
+
+  const { kept, omitted } = packMessages(
+    redactPromptInput(messages, "digest"),
+    getDigestBudget(),
+  );
+  try {
+    const { text } = await backend.run({
+      prompt: buildDigestPrompt(channelName, hours, kept, omitted),
+      purpose: "digest",
+      cwd: workdir,
+      signal,
+      options: { ...modelOptions, webSearch: false },
+    });
+    const body = lintSlackMrkdwn(text || "", {
+      locale: getDefaultPromptLocale(),
+    }).text;
+    const footer = `_${messages.length}件の投稿から作成${
+      omitted || history.truncated ? "（古い投稿は一部省略）" : ""
+    }_`;
+    return { ok: true, text: [header, body, footer].join("\n") };
+  } catch (e) {
+    if (isCancelledError(e)) {
+      return { ok: false, text: CANCELLED_TEXT, cancelled: true };
+    }
+    const error = toModelError(e);
+    logger.error("digest failed", { kind: error.kind, error: error.message });
+    return {
+      ok: false,
+      text: `⚠️ ダイジェストを作成できませんでした。\n原因: ${describeModelError(error)}`,
+    };
+  }
+}
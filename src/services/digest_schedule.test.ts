@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  findDueDigests,
+  latestScheduledRun,
+  type DigestSubscription,
+} from "./digest_schedule.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function subscription(
+  overrides: Partial<DigestSubscription> = {},
+): DigestSubscription {
+  return {
+    channelId: "C1",
+    time: "09:00",
+    timezone: "Asia/Tokyo",
+    hours: 24,
+    createdBy: "U1",
+    createdAt: Date.parse("2026-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+test("finds the latest local posting time at or before now", () => {
+  const sub = subscription();
+  // 09:00 in Tokyo is 00:00 UTC.
+  assert.equal(
+    latestScheduledRun(sub, Date.parse("2026-10-19T03:00:00Z")),
+    Date.parse("2026-10-19T00:00:00Z"),
+  );
+  assert.equal(
+    latestScheduledRun(sub, Date.parse("2026-10-18T23:59:00Z")),
+    Date.parse("2026-10-18T00:00:00Z"),
+  );
+});
+
+test("follows daylight saving time switches", () => {
+  const sub = subscription({ timezone: "America/New_York" });
+  // EST (UTC-5) before 2026-03-08, EDT (UTC-4) after.
+  assert.equal(
+    latestScheduledRun(sub, Date.parse("2026-03-07T20:00:00Z")),
+    Date.parse("2026-03-07T14:00:00Z"),
+  );
+  assert.equal(
+    latestScheduledRun(sub, Date.parse("2026-03-09T20:00:00Z")),
+    Date.parse("2026-03-09T13:00:00Z"),
+  );
+  // Back to EST after 2026-11-01.
+  assert.equal(
+    latestScheduledRun(sub, Date.parse("2026-11-02T20:00:00Z")),
+    Date.parse("2026-11-02T14:00:00Z"),
+  );
+});
+
+test("places a time skipped by the spring-forward gap after the switch", () => {
+  const sub = subscription({ timezone: "America/New_York", time: "02:30" });
+  const run = latestScheduledRun(sub, Date.parse("2026-03-08T12:00:00Z"));
+  // 02:30 does not exist that day; the run is still on 2026-03-08 local.
+  assert.ok(run >= Date.parse("2026-03-08T06:30:00Z"));
+  assert.ok(run <= Date.parse("2026-03-08T07:30:00Z"));
+});
+
+test("is due once per scheduled time", () => {
+  const scheduledAt = Date.parse("2026-10-19T00:00:00Z");
+  const now = scheduledAt + 60_000;
+  const sub = subscription({ lastRunAt: scheduledAt - DAY_MS });
+  const [due] = findDueDigests([sub], now);
+  assert.equal(due.scheduledAt, scheduledAt);
+  assert.equal(due.hours, 24);
+  assert.equal(due.lateNote, undefined);
+
+  const done = subscription({ lastRunAt: scheduledAt });
+  assert.deepEqual(findDueDigests([done], now), []);
+});
+
+test("does not run a time that passed before the subscription was made", () => {
+  const scheduledAt = Date.parse("2026-10-19T00:00:00Z");
+  const sub = subscription({ createdAt: scheduledAt + HOUR_MS });
+  assert.deepEqual(findDueDigests([sub], scheduledAt + 2 * HOUR_MS), []);
+});
+
+test("notes a late run", () => {
+  const scheduledAt = Date.parse("2026-10-19T00:00:00Z");
+  const sub = subscription({ lastRunAt: scheduledAt - DAY_MS });
+  const [due] = findDueDigests([sub], scheduledAt + 30 * 60_000);
+  assert.equal(due.hours, 24);
+  assert.match(due.lateNote, /遅れて投稿します。$/);
+});
+
+test("catches up missed runs with one longer digest", () => {
+  const scheduledAt = Date.parse("2026-10-19T00:00:00Z");
+  const lastRunAt = scheduledAt - 3 * DAY_MS;
+  const now = scheduledAt + 2 * HOUR_MS;
+  const [due] = findDueDigests([subscription({ lastRunAt })], now);
+  assert.equal(due.scheduledAt, scheduledAt);
+  assert.equal(due.hours, 3 * 24 + 2);
+  assert.match(due.lateNote, /2回分の見逃しをまとめています/);
+});
+
+test("caps the catch-up period", () => {
+  const scheduledAt = Date.parse("2026-10-19T00:00:00Z");
+  const lastRunAt = scheduledAt - 30 * DAY_MS;
+  const [due] = findDueDigests([subscription({ lastRunAt })], scheduledAt);
+  assert.equal(due.hours, 168);
+});
@@ -0,0 +1,210 @@
+import { createJsonStore } from "../integrations/json_store.js";
+import { logger } from "../integrations/logger.js";
+import { MAX_DIGEST_HOURS } from "./digest.js";
+
+export type DigestSubscription = {
+  channelId: string;
+  // Local posting time, "HH:MM" in `timezone`.
+  time: string;
+  timezone: string;
+  hours: number;
+  createdBy: string;
+  createdAt: number;
+  // Scheduled time of the last run that was started.
+  lastRunAt?: number;
+};
+
+export type DueDigest = {
+  subscription: DigestSubscription;
+  scheduledAt: number;
+  // Hours to cover; longer than the subscription's when runs were missed.
+  hours: number;
+  // Set when the run is late, e.g. the bot was down at the scheduled time.
+  lateNote?: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const LATE_AFTER_MS = 10 * 60 * 1000;
+const DEFAULT_TIMEZONE = "Asia/Tokyo";
+
+const store = createJsonStore<Record<string, DigestSubscription>>(
+  "digest_subscriptions",
+  () => ({}),
+);
+
+export function getDigestTimezone() {
+  const timeZone = process.env.DIGEST_TIMEZONE || DEFAULT_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    logger.warn("invalid DIGEST_TIMEZONE", { timeZone });
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+export function listDigestSubscriptions(): DigestSubscription[] {
+  return Object.values(store.read()).sort((a, b) =>
+    a.time.localeCompare(b.time),
+  );
+}
+
+// One subscription per channel; subscribing again changes time and period.
+export async function saveDigestSubscription(
+  subscription: Omit<DigestSubscription, "lastRunAt">,
+) {
+  await store.update((all) => {
+    const lastRunAt = all[subscription.channelId]?.lastRunAt;
+    all[subscription.channelId] = { ...subscription, lastRunAt };
+  });
+}
+
+export async function removeDigestSubscription(channelId: string) {
+  let removed = false;
+  await store.update((all) => {
+    removed = Boolean(all[channelId]);
+    delete all[channelId];
+  });
+  return removed;
+}
+
+async function markRun(channelId: string, scheduledAt: number) {
+  await store.update((all) => {
+    if (all[channelId]) all[channelId].lastRunAt = scheduledAt;
+  });
+}
+
+export function describeDigestSubscription(sub: DigestSubscription) {
+  return `<#${sub.channelId}> 毎日 ${sub.time}（${sub.timezone}）・直近${sub.hours}時間`;
+}
+
+function localParts(ms: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+  }).formatToParts(new Date(ms));
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+  };
+}
+
+function zoneOffset(ms: number, timeZone: string) {
+  const p = localParts(ms, timeZone);
+  const local = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return local - Math.floor(ms / 60_000) * 60_000;
+}
+
+// Local wall-clock time to an instant. The offset is looked up twice so a
+// time right after a DST switch lands on the right side of it.
+function zonedTime(
+  date: { year: number; month: number; day: number },
+  time: string,
+  timeZone: string,
+) {
+  const [hour, minute] = time.split(":").map(Number);
+  const guess = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const first = guess - zoneOffset(guess, timeZone);
+  return guess - zoneOffset(first, timeZone);
+}
+
+// The most recent scheduled time at or before `now`.
+export function latestScheduledRun(sub: DigestSubscription, now: number) {
+  const at = (ms: number) =>
+    zonedTime(localParts(ms, sub.timezone), sub.time, sub.timezone);
+  const today = at(now);
+  return today <= now ? today : at(now - DAY_MS);
+}
+
+// A subscription is due when its latest scheduled time has not been run yet.
+// Runs missed while the bot was down are not replayed one by one: a single
+// late digest is posted that covers everything since the last one.
+export function findDueDigests(
+  subscriptions: DigestSubscription[],
+  now = Date.now(),
+): DueDigest[] {
+  const due: DueDigest[] = [];
+  for (const sub of subscriptions) {
+    const scheduledAt = latestScheduledRun(sub, now);
+    const since = sub.lastRunAt ?? sub.createdAt;
+    if (scheduledAt <= since) continue;
+
+    const missed = sub.lastRunAt
+      ? Math.round((scheduledAt - sub.lastRunAt) / DAY_MS) - 1
+      : 0;
+    const hours =
+      missed > 0
+        ? Math.min(
+            MAX_DIGEST_HOURS,
+            Math.max(sub.hours, Math.ceil((now - sub.lastRunAt) / HOUR_MS)),
+          )
+        : sub.hours;
+    const late = now - scheduledAt > LATE_AFTER_MS;
+    const lateNote =
+      late || missed > 0
+        ? `⏰ 予定時刻（${sub.time}）にボットが停止していたため遅れて投稿します${
+            missed > 0 ? `（${missed}回分の見逃しをまとめています）` : ""
+          }。`
+        : undefined;
+    due.push({ subscription: sub, scheduledAt, hours, lateNote });
+  }
+  return due;
+}
+
+// Checks subscriptions every minute, and once right away so runs missed
+// during downtime are caught up at startup. A run is marked before it
+// starts: a crash mid-run skips that digest instead of repeating it.
+export function startDigestScheduler({
+  onDue,
+  intervalMs = 60_000,
+}: {
+  onDue: (digest: DueDigest) => Promise<void>;
+  intervalMs?: number;
+}) {
+  const running = new Set<string>();
+  const tick = async () => {
+    for (const digest of findDueDigests(listDigestSubscriptions())) {
+      const { channelId } = digest.subscription;
+      if (running.has(channelId)) continue;
+      running.add(channelId);
+      try {
+        await markRun(channelId, digest.scheduledAt);
+      } catch (e) {
+        running.delete(channelId);
+        logger.error("digest schedule update failed", {
+          channel: channelId,
+          error: (e as Error)?.message,
+        });
+        continue;
+      }
+      logger.info("scheduled digest due", {
+        channel: channelId,
+        scheduledAt: new Date(digest.scheduledAt).toISOString(),
+        hours: digest.hours,
+        late: Boolean(digest.lateNote),
+      });
+      onDue(digest)
+        .catch((e) =>
+          logger.error("scheduled digest failed", {
+            channel: channelId,
+            error: e?.data?.error || e?.message,
+          }),
+        )
+        .finally(() => running.delete(channelId));
+    }
+  };
+  void tick();
+  const timer = setInterval(() => void tick(), intervalMs);
+  return () => clearInterval(timer);
+}
@@ -1,92 +1,55 @@
-import { runCodexExec, type ExecError } from "../integrations/codex_client.js";
 import { toSlackMarkdown } from "../integrations/slack_formatters.js";
-import { type SlackContext } from "../integrations/slack_api.js";
+import { isDirectMessageChannel } from "../integrations/slack_api.js";
+import type { KnownBlock, ModalView } from "@slack/web-api";
+import {
+  HANGOUT_DECIDE_ACTION,
+  HANGOUT_SHARE_ACTION,
+  HANGOUT_SHARE_VIEW,
+  HANGOUT_VOTE_ACTION,
+} from "../integrations/slack_blocks.js";
+import {
+  attachPollMessage,
+  createPoll,
+  tallyVotes,
+  type HangoutPoll,
+} from "./hangout_polls.js";
+import {
+  describeHangoutConditions,
+  parseHangoutArgs,
+  toPromptConditions,
+  type HangoutConditions,
+} from "./hangout_args.js";
+import { checkHangoutPlan, HANGOUT_PLAN_SCHEMA } from "./hangout_schema.js";
+import { renderPrompt } from "./prompt_templates.js";
+import { defineStructuredCommand } from "./structured_command.js";
 
-const JSON_SCHEMA = `{
-  "candidates": [
-    { "name": string, "reason": string, "budget_yen": number, "walk_min": number, "vibe": string, "tabelog_url": string }
-  ],
-  "final_message": string
-}`;
+export type HangoutCandidate = {
+  name: string;
+  reason: string;
+  budget_yen: number;
+  walk_min: number;
+  vibe: string;
+  tabelog_url?: string;
+};
 
-function buildHangoutPrompt(
-  slackText: string,
-  slackContext: SlackContext | null
-) {
-  return `
-You are a hangout planning assistant.
-
-User request (raw Slack text):
-${JSON.stringify(slackText)}
-
-Slack context (JSON, if available):
-${JSON.stringify(slackContext || null)}
-
-Rules:
-- Output VALID JSON ONLY. No markdown. No prose.
-- Follow this JSON schema exactly:
-${JSON_SCHEMA}
-- Propose exactly 3 candidates.
-- If information is missing, make reasonable assumptions instead of asking questions.
-- Include a Tabelog URL for each candidate in "tabelog_url".
-- Use the user's locale and context when possible. If unclear, assume Japan and typical local venues.
-`.trim();
-}
-
-function tryParseJson(stdout: string) {
-  // If extra lines exist, capture the first JSON object.
-  const start = stdout.indexOf("{");
-  const end = stdout.lastIndexOf("}");
-  if (start === -1 || end === -1 || end <= start) {
-    throw new Error("No JSON object found in codex output.");
-  }
-  const jsonText = stdout.slice(start, end + 1);
-  return JSON.parse(jsonText);
-}
-
-function parseHangoutText(slackText: string): {
-  area: string;
-  budget: string;
-  people: string;
-  time: string;
-} {
-  const text = (slackText || "").trim();
-  const parts = text.split(/\s+/).filter(Boolean);
-  const [area, budget, people, time] = parts;
-  return {
-    area: area || "未指定",
-    budget: budget || "未指定",
-    people: people || "未指定",
-    time: time || "未指定",
-  };
-}
+export type HangoutPlan = {
+  candidates: HangoutCandidate[];
+  final_message?: string;
+};
 
-export function formatSearchConditions(slackText: string): string {
-  const cond = parseHangoutText(slackText);
-  return `🔎 検索条件: エリア=${cond.area}, 予算=${cond.budget}円/人, 人数=${cond.people}, 開始=${cond.time}`;
+function formatCandidate(c: HangoutCandidate, i: number): string {
+  const reason = toSlackMarkdown(c.reason || "");
+  const urlLine = c.tabelog_url ? `• <${c.tabelog_url}|食べログ>` : "";
+  return `*${i + 1}. ${c.name}* (¥${c.budget_yen} / 徒歩${c.walk_min}分 / ${
+    c.vibe
+  })\n• ${reason}${urlLine ? `\n${urlLine}` : ""}`;
 }
 
-function formatHangoutMessage(plan: {
-  candidates: Array<{
-    name: string;
-    reason: string;
-    budget_yen: number;
-    walk_min: number;
-    vibe: string;
-    tabelog_url?: string;
-  }>;
-  final_message?: string;
-}): string {
+function formatHangoutMessage(plan: HangoutPlan): string {
   const lines = [];
   lines.push(`🍻 *候補（3件）*`);
   for (const [i, c] of plan.candidates.entries()) {
-    const reason = toSlackMarkdown(c.reason || "");
-    const urlLine = c.tabelog_url ? `• <${c.tabelog_url}|食べログ>` : "";
-    lines.push(
-      `*${i + 1}. ${c.name}* (¥${c.budget_yen} / 徒歩${c.walk_min}分 / ${
-        c.vibe
-      })\n• ${reason}${urlLine ? `\n${urlLine}` : ""}`
-    );
+    lines.push(formatCandidate(c, i));
   }
   if (plan.final_message) {
     lines.push(`\n📣 *集合メッセージ*\n${toSlackMarkdown(plan.final_message)}`);
@@ -94,68 +57,176 @@ function formatHangoutMessage(plan: {
   return lines.join("\n");
 }
 
-function diagnoseFailure(err: ExecError) {
-  const msg = `${err?.message ?? ""}\n${err?.stderr ?? ""}`.toLowerCase();
-  if (msg.includes("enoent") || msg.includes("spawn codex")) {
-    return "Codex CLI not found. Make sure `codex` is installed and on PATH.";
+export function buildHangoutPollBlocks(poll: HangoutPoll): KnownBlock[] {
+  const { plan } = poll;
+  const decided = poll.decidedIndex !== undefined;
+  const voters = tallyVotes(poll);
+  const blocks: KnownBlock[] = [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: decided
+          ? `🍻 *候補（3件）* ー 投票は締め切りました`
+          : `🍻 *候補（3件）* ー 行きたいお店に投票してください`,
+      },
+    },
+  ];
+  for (const [i, c] of plan.candidates.entries()) {
+    const isWinner = poll.decidedIndex === i;
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `${isWinner ? "✅ " : ""}${formatCandidate(c, i)}`,
+      },
+      ...(decided
+        ? {}
+        : {
+            accessory: {
+              type: "button",
+              action_id: HANGOUT_VOTE_ACTION,
+              text: { type: "plain_text", text: `投票 (${voters[i].length})` },
+              value: `${poll.id}:${i}`,
+            },
+          }),
+    });
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: voters[i].length
+            ? `🙋 ${voters[i].map((u) => `<@${u}>`).join(" ")}`
+            : "まだ投票はありません",
+        },
+      ],
+    });
   }
-  if (
-    msg.includes("login") ||
-    msg.includes("not logged in") ||
-    msg.includes("auth")
-  ) {
-    return "Codex CLI authentication required. Run `codex login` and try again.";
+  if (plan.final_message) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `📣 *集合メッセージ*\n${toSlackMarkdown(plan.final_message)}`,
+      },
+    });
   }
-  if (msg.includes("timed out")) {
-    return "Codex timed out. Shorten the request or increase the timeout.";
+  if (!decided) {
+    blocks.push({
+      type: "actions",
+      elements: [
+        {
+          type: "button",
+          action_id: HANGOUT_DECIDE_ACTION,
+          text: { type: "plain_text", text: "決定" },
+          style: "primary",
+          value: poll.id,
+        },
+        // Plans made in a DM can be posted to a channel for the real vote.
+        ...(isDirectMessageChannel(poll.channelId)
+          ? [
+              {
+                type: "button" as const,
+                action_id: HANGOUT_SHARE_ACTION,
+                text: { type: "plain_text" as const, text: "チャンネルに共有" },
+                value: poll.id,
+              },
+            ]
+          : []),
+      ],
+    });
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `「決定」は <@${poll.requesterId}> さんだけが押せます（最多得票のお店に決まります）`,
+        },
+      ],
+    });
   }
-  return "Codex execution failed. Check server stderr for details.";
+  return blocks;
 }
 
-export async function planHangout({
-  slackText,
-  workdir,
-  slackContext,
-}: {
-  slackText: string;
-  workdir: string;
-  slackContext: SlackContext | null;
-}) {
-  const prompt1 = buildHangoutPrompt(slackText, slackContext);
-
-  try {
-    const { stdout } = await runCodexExec({ prompt: prompt1, cwd: workdir });
-    const plan = tryParseJson(stdout);
-    return { ok: true, text: formatHangoutMessage(plan), raw: plan };
-  } catch (e1) {
-    // Retry once with a stronger JSON-only instruction.
-    const prompt2 = `${prompt1}\n\nIMPORTANT: Output JSON ONLY. Do not include any other text.`;
-    try {
-      const { stdout } = await runCodexExec({ prompt: prompt2, cwd: workdir });
-      const plan = tryParseJson(stdout);
-      return { ok: true, text: formatHangoutMessage(plan), raw: plan };
-    } catch (e2) {
-      const hint = diagnoseFailure(e2 as ExecError);
-      console.error("planHangout failed", {
-        error1: (e1 as ExecError)?.message,
-        error2: (e2 as ExecError)?.message,
-        stderr: (e2 as ExecError)?.stderr ?? (e1 as ExecError)?.stderr,
-        stdout: (e2 as ExecError)?.stdout ?? (e1 as ExecError)?.stdout,
-      });
-      const debugEnabled =
-        process.env.PLANNER_DEBUG === "1" ||
-        process.env.PLANNER_DEBUG === "true";
-      return {
-        ok: false,
-        text: debugEnabled
-          ? `⚠️ 提案を生成できませんでした。\n原因: ${hint}`
-          : `⚠️ 提案を生成できませんでした。条件を短くしてもう一度試してください。（例: \`/hangout 六本木 5000 4 19:30\`）\n原因: ${hint}`,
-        debug: {
-          error1: e1?.message,
-          error2: e2?.message,
-          stderr: e2?.stderr ?? e1?.stderr,
+export function buildHangoutShareModal(pollId: string): ModalView {
+  return {
+    type: "modal",
+    callback_id: HANGOUT_SHARE_VIEW,
+    private_metadata: pollId,
+    title: { type: "plain_text", text: "候補をチャンネルに共有" },
+    submit: { type: "plain_text", text: "共有" },
+    close: { type: "plain_text", text: "閉じる" },
+    blocks: [
+      {
+        type: "input",
+        block_id: "channel",
+        label: { type: "plain_text", text: "共有先チャンネル" },
+        element: {
+          type: "conversations_select",
+          action_id: "value",
+          filter: { include: ["public", "private"], exclude_bot_users: true },
         },
-      };
-    }
+      },
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: "同じ候補で新しい投票を作り、チャンネルに投稿します。",
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export function formatHangoutDecision(poll: HangoutPoll): string {
+  const winner = poll.plan.candidates[poll.decidedIndex ?? 0];
+  const votes = tallyVotes(poll)[poll.decidedIndex ?? 0].length;
+  const lines = [`🎉 *お店が決まりました: ${winner.name}*（${votes}票）`];
+  if (winner.tabelog_url) {
+    lines.push(`• <${winner.tabelog_url}|食べログ>`);
+  }
+  if (poll.plan.final_message) {
+    lines.push(
+      `\n📣 *集合メッセージ*\n${toSlackMarkdown(poll.plan.final_message)}`,
+    );
   }
+  return lines.join("\n");
 }
+
+// /nomikai: three picks for a meetup, posted as a poll.
+export const hangoutCommand = defineStructuredCommand<
+  HangoutConditions,
+  HangoutPlan
+>({
+  name: "/nomikai",
+  parseArgs: parseHangoutArgs,
+  thinkingText: "候補を考え中",
+  describeArgs: (cond) => {
+    const lines = [`🔎 検索条件: ${describeHangoutConditions(cond)}`];
+    if (cond.errors.length) {
+      lines.push(`⚠️ 解釈できなかった指定: ${cond.errors.join(" / ")}`);
+    }
+    return lines.join("\n");
+  },
+  usage: "/nomikai 六本木 5000円 4人 19:30",
+  schema: HANGOUT_PLAN_SCHEMA,
+  validate: checkHangoutPlan,
+  buildPrompt: ({ locale, slackText, args, slackContext, schema }) =>
+    renderPrompt("hangout", locale, {
+      slackText: JSON.stringify(slackText),
+      conditions: JSON.stringify(toPromptConditions(args)),
+      context: JSON.stringify(slackContext || null),
+      schema,
+    }),
+  format: async (plan, { channelId, userId }) => {
+    const poll = await createPoll({ channelId, requesterId: userId, plan });
+    return {
+      text: formatHangoutMessage(plan),
+      blocks: buildHangoutPollBlocks(poll),
+      onPosted: (ts) => attachPollMessage(poll.id, ts),
+    };
+  },
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseHangoutArgs } from "./hangout_args.js";
+
+// A Monday.
+const NOW = new Date(2026, 9, 19, 12, 0);
+
+test("parses natural Japanese conditions in any order", () => {
+  const cond = parseHangoutArgs("渋谷 明日19時半 4人 〜5000円 個室 禁煙", NOW);
+  assert.equal(cond.area, "渋谷");
+  assert.equal(cond.date, "2026-10-20");
+  assert.equal(cond.dateLabel, "明日");
+  assert.equal(cond.time, "19:30");
+  assert.equal(cond.people, 4);
+  assert.deepEqual(cond.budget, { max: 5000 });
+  assert.deepEqual(cond.extras, ["個室", "禁煙"]);
+  assert.deepEqual(cond.errors, []);
+});
+
+test("parses key=value conditions", () => {
+  const cond = parseHangoutArgs(
+    'area="新宿 三丁目" 予算=3000-5000 人数=6 date=金曜 time=19:00',
+    NOW,
+  );
+  assert.equal(cond.area, "新宿 三丁目");
+  assert.deepEqual(cond.budget, { min: 3000, max: 5000 });
+  assert.equal(cond.people, 6);
+  assert.equal(cond.date, "2026-10-23");
+  assert.equal(cond.time, "19:00");
+  assert.deepEqual(cond.errors, []);
+});
+
+test("reads bare numbers as budget then head count", () => {
+  const cond = parseHangoutArgs("六本木 5000 4 19:30", NOW);
+  assert.deepEqual(cond.budget, { max: 5000 });
+  assert.equal(cond.people, 4);
+  assert.equal(cond.time, "19:30");
+});
+
+test("reports a malformed head count instead of using it as the area", () => {
+  const cond = parseHangoutArgs("4-6人 渋谷", NOW);
+  assert.equal(cond.area, "渋谷");
+  assert.deepEqual(cond.extras, []);
+  assert.deepEqual(cond.errors, ["「4-6人」(人数として解釈できません)"]);
+});
+
+test("reports durations instead of keeping them as extras", () => {
+  const cond = parseHangoutArgs("渋谷 2時間", NOW);
+  assert.equal(cond.area, "渋谷");
+  assert.deepEqual(cond.extras, []);
+  assert.deepEqual(cond.errors, ["「2時間」(所要時間は指定できません)"]);
+});
+
+test("reports malformed and out-of-range times", () => {
+  assert.deepEqual(parseHangoutArgs("新宿 19時過ぎ", NOW).errors, [
+    "「19時過ぎ」(時刻として解釈できません)",
+  ]);
+  assert.deepEqual(parseHangoutArgs("新宿 25:00", NOW).errors, [
+    "「25:00」(時刻は0:00〜23:59で指定してください)",
+  ]);
+  assert.deepEqual(parseHangoutArgs("time=夜", NOW).errors, [
+    "「time=夜」(時刻として解釈できません)",
+  ]);
+});
+
+test("reports a second date and keeps the first", () => {
+  const cond = parseHangoutArgs("明日 金曜", NOW);
+  assert.equal(cond.date, "2026-10-20");
+  assert.deepEqual(cond.errors, ["「金曜」(日付は「明日」で指定済みです)"]);
+});
+
+test("reports a second time and keeps the first", () => {
+  const cond = parseHangoutArgs("time=19時 20:00", NOW);
+  assert.equal(cond.time, "19:00");
+  assert.deepEqual(cond.errors, ["「20:00」(開始時刻は19:00で指定済みです)"]);
+});
+
+test("reports a second head count and keeps the first", () => {
+  const cond = parseHangoutArgs("渋谷 4人 5人", NOW);
+  assert.equal(cond.people, 4);
+  assert.deepEqual(cond.errors, ["「5人」(人数は4人で指定済みです)"]);
+});
+
+test("reports a second budget and keeps the first", () => {
+  const cond = parseHangoutArgs("渋谷 3000円 5000円", NOW);
+  assert.deepEqual(cond.budget, { max: 3000 });
+  assert.deepEqual(cond.errors, ["「5000円」(予算は〜3000円/人で指定済みです)"]);
+});
+
+test("accepts the same value twice", () => {
+  const cond = parseHangoutArgs("明日 明日19時 4人 人数=4", NOW);
+  assert.equal(cond.date, "2026-10-20");
+  assert.equal(cond.time, "19:00");
+  assert.equal(cond.people, 4);
+  assert.deepEqual(cond.errors, []);
+});
@@ -0,0 +1,413 @@
+export type HangoutConditions = {
+  area?: string;
+  // Yen per person; either bound may be open.
+  budget?: { min?: number; max?: number };
+  people?: number;
+  // "HH:MM"
+  time?: string;
+  // "YYYY-MM-DD" resolved against the current local date.
+  date?: string;
+  dateLabel?: string;
+  extras: string[];
+  // Pieces of input that could not be understood, with the reason.
+  errors: string[];
+};
+
+const KEY_ALIASES: Record<string, keyof HangoutConditions> = {
+  area: "area",
+  エリア: "area",
+  場所: "area",
+  駅: "area",
+  budget: "budget",
+  予算: "budget",
+  people: "people",
+  人数: "people",
+  time: "time",
+  時間: "time",
+  時刻: "time",
+  開始: "time",
+  date: "date",
+  日付: "date",
+  日: "date",
+  extra: "extras",
+  extras: "extras",
+  条件: "extras",
+  希望: "extras",
+};
+
+const KNOWN_EXTRAS = [
+  "個室",
+  "半個室",
+  "禁煙",
+  "喫煙可",
+  "分煙",
+  "飲み放題",
+  "食べ放題",
+  "貸切",
+  "駅近",
+  "座敷",
+  "テラス",
+  "子連れ",
+  "カード可",
+  "予約可",
+  "静か",
+];
+
+const WEEKDAYS = ["日", "月", "火", "水", "木", "金", "土"];
+
+const MAX_PEOPLE = 100;
+const MIN_BUDGET = 500;
+const MAX_BUDGET = 100000;
+
+type ParseResult<T> = { value: T } | { error: string } | null;
+
+// Tokens that did not parse but are clearly meant as a condition, so they are
+// reported instead of becoming the area or an extra. Checked in order.
+const MALFORMED: Array<[RegExp, string]> = [
+  [/^\d+(?:\.\d+)?(?:時間|分|h|hours?|min)/i, "所要時間は指定できません"],
+  [/\d(?:人|名)/, "人数として解釈できません"],
+  [/^\d{1,2}(?::|時)/, "時刻として解釈できません"],
+  [/^\d{1,4}(?:\/|月)\d/, "日付として解釈できません"],
+  [/\d(?:円|千|万|k)|^[¥]\d/i, "予算として解釈できません"],
+  [/\d[~〜-]|[~〜-]\d/, "範囲として解釈できません"],
+];
+
+function tokenize(text: string): string[] {
+  return text.match(/\S+?="[^"]*"|"[^"]*"|\S+/g) || [];
+}
+
+function unquote(value: string) {
+  return value.replace(/^"(.*)"$/, "$1").trim();
+}
+
+function parseYen(raw: string): number | null {
+  const m = raw.match(/^[¥]?(\d+(?:\.\d+)?)(万|千|k)?円?$/i);
+  if (!m) return null;
+  const unit = m[2] === "万" ? 10000 : m[2] ? 1000 : 1;
+  return Math.round(Number(m[1]) * unit);
+}
+
+function checkBudget(yen: number): string | null {
+  if (yen < MIN_BUDGET || yen > MAX_BUDGET) {
+    return `予算は${MIN_BUDGET}〜${MAX_BUDGET}円/人で指定してください`;
+  }
+  return null;
+}
+
+// "5000円" / "〜5000円" / "5000円以下" are upper bounds, "3000円以上" is a lower
+// bound and "3000-5000円" is a range. keyed=true also accepts bare numbers.
+function parseBudget(
+  token: string,
+  keyed: boolean,
+): ParseResult<HangoutConditions["budget"]> {
+  const t = token.replace(/\/人$|per人$/, "");
+  const range = t.match(/^([^~〜-]+)[~〜-]([^~〜-]+)$/);
+  let budget: HangoutConditions["budget"] | null = null;
+  if (range) {
+    const min = parseYen(range[1]);
+    const max = parseYen(range[2]);
+    if (min == null || max == null) return null;
+    if (min > max) return { error: "予算の範囲が逆になっています" };
+    budget = { min, max };
+  } else {
+    const m = t.match(/^([~〜])?(.+?)(以下|まで|以上)?$/);
+    const looksLikeYen = /円|¥|千|万|k$/i.test(t) || m?.[1] || m?.[3];
+    if (!m || (!keyed && !looksLikeYen)) return null;
+    const yen = parseYen(m[2]);
+    if (yen == null) return null;
+    budget = m[3] === "以上" ? { min: yen } : { max: yen };
+  }
+  for (const yen of [budget.min, budget.max]) {
+    const error = yen == null ? null : checkBudget(yen);
+    if (error) return { error };
+  }
+  return { value: budget };
+}
+
+function parsePeople(token: string, keyed: boolean): ParseResult<number> {
+  const m = token.match(keyed ? /^(\d+)(人|名)?$/ : /^(\d+)(人|名)$/);
+  if (!m) return null;
+  const people = Number(m[1]);
+  if (people < 1 || people > MAX_PEOPLE) {
+    return { error: `人数は1〜${MAX_PEOPLE}人で指定してください` };
+  }
+  return { value: people };
+}
+
+function parseTime(token: string): ParseResult<string> {
+  const t = token.replace(/(から|[~〜]|スタート|開始)$/, "");
+  const m =
+    t.match(/^(\d{1,2}):(\d{2})$/) ||
+    t.match(/^(\d{1,2})時(?:(\d{1,2})分|(半))?$/);
+  if (!m) return null;
+  const hour = Number(m[1]);
+  const minute = m[3] ? 30 : Number(m[2] || 0);
+  if (hour > 23 || minute > 59) {
+    return { error: "時刻は0:00〜23:59で指定してください" };
+  }
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return { value: `${pad(hour)}:${pad(minute)}` };
+}
+
+function toIsoDate(date: Date) {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function parseDate(
+  token: string,
+  now: Date,
+): ParseResult<{ date: string; label: string }> {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const addDays = (days: number) =>
+    new Date(today.getFullYear(), today.getMonth(), today.getDate() + days);
+
+  const relative: Record<string, number> = {
+    今日: 0,
+    本日: 0,
+    今夜: 0,
+    明日: 1,
+    あした: 1,
+    明後日: 2,
+    あさって: 2,
+  };
+  if (token in relative) {
+    const date = toIsoDate(addDays(relative[token]));
+    return { value: { date, label: token } };
+  }
+
+  const weekday = token.match(/^(来週)?([月火水木金土日])曜日?$/);
+  if (weekday) {
+    const target = WEEKDAYS.indexOf(weekday[2]);
+    let diff = (target - today.getDay() + 7) % 7;
+    if (weekday[1]) diff += 7;
+    return { value: { date: toIsoDate(addDays(diff)), label: token } };
+  }
+
+  const md =
+    token.match(/^(\d{1,2})\/(\d{1,2})$/) ||
+    token.match(/^(\d{1,2})月(\d{1,2})日$/);
+  if (md) {
+    const month = Number(md[1]);
+    const day = Number(md[2]);
+    let date = new Date(today.getFullYear(), month - 1, day);
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+      return { error: "存在しない日付です" };
+    }
+    // Dates already past this year mean next year.
+    if (date < today) date = new Date(today.getFullYear() + 1, month - 1, day);
+    return { value: { date: toIsoDate(date), label: token } };
+  }
+  return null;
+}
+
+// "明日19時" style tokens carry a date and a time at once.
+function splitDateTime(token: string): [string, string] | null {
+  const m = token.match(
+    /^(今日|本日|今夜|明日|明後日|(?:来週)?[月火水木金土日]曜日?|\d{1,2}\/\d{1,2}|\d{1,2}月\d{1,2}日)(\d{1,2}(?::\d{2}|時.*))$/,
+  );
+  return m ? [m[1], m[2]] : null;
+}
+
+function describeBudget(budget: HangoutConditions["budget"]) {
+  if (!budget) return "未指定";
+  const { min, max } = budget;
+  if (min != null && max != null) return `${min}〜${max}円/人`;
+  if (max != null) return `〜${max}円/人`;
+  return `${min}円〜/人`;
+}
+
+export function parseHangoutArgs(
+  slackText: string,
+  now: Date = new Date(),
+): HangoutConditions {
+  const conditions: HangoutConditions = { extras: [], errors: [] };
+  const text = (slackText || "").normalize("NFKC").trim();
+  const reject = (piece: string, reason: string) =>
+    conditions.errors.push(`「${piece}」(${reason})`);
+
+  // A second, different date, time, head count or budget is reported; the
+  // first one stays.
+  const setDate = (piece: string, value: { date: string; label: string }) => {
+    if (conditions.date && conditions.date !== value.date) {
+      return reject(piece, `日付は「${conditions.dateLabel}」で指定済みです`);
+    }
+    conditions.date = value.date;
+    conditions.dateLabel = value.label;
+  };
+  const setTime = (piece: string, time: string) => {
+    if (conditions.time && conditions.time !== time) {
+      return reject(piece, `開始時刻は${conditions.time}で指定済みです`);
+    }
+    conditions.time = time;
+  };
+  const setPeople = (piece: string, people: number) => {
+    if (conditions.people != null && conditions.people !== people) {
+      return reject(piece, `人数は${conditions.people}人で指定済みです`);
+    }
+    conditions.people = people;
+  };
+  const setBudget = (piece: string, budget: HangoutConditions["budget"]) => {
+    const current = conditions.budget;
+    if (current && (current.min !== budget.min || current.max !== budget.max)) {
+      return reject(piece, `予算は${describeBudget(current)}で指定済みです`);
+    }
+    conditions.budget = budget;
+  };
+
+  const applyKeyed = (piece: string, key: string, raw: string) => {
+    const field = KEY_ALIASES[key.toLowerCase()];
+    const value = unquote(raw);
+    if (!field) return reject(piece, `不明な項目「${key}」`);
+    if (!value) return reject(piece, "値が空です");
+    switch (field) {
+      case "area":
+        conditions.area = value;
+        return;
+      case "extras":
+        conditions.extras.push(
+          ...value.split(/[,、・]/).map((v) => v.trim()).filter(Boolean),
+        );
+        return;
+      case "budget": {
+        const r = parseBudget(value, true);
+        if (!r) return reject(piece, "予算として解釈できません");
+        if ("error" in r) return reject(piece, r.error);
+        setBudget(piece, r.value);
+        return;
+      }
+      case "people": {
+        const r = parsePeople(value, true);
+        if (!r) return reject(piece, "人数として解釈できません");
+        if ("error" in r) return reject(piece, r.error);
+        setPeople(piece, r.value);
+        return;
+      }
+      case "time": {
+        const r = parseTime(value);
+        if (!r) return reject(piece, "時刻として解釈できません");
+        if ("error" in r) return reject(piece, r.error);
+        setTime(piece, r.value);
+        return;
+      }
+      case "date": {
+        const r = parseDate(value, now);
+        if (!r) return reject(piece, "日付として解釈できません");
+        if ("error" in r) return reject(piece, r.error);
+        setDate(piece, r.value);
+        return;
+      }
+      default:
+        return;
+    }
+  };
+
+  // Returns false when the token is not a recognizable date/time/etc.
+  const applyFree = (token: string): boolean => {
+    const date = parseDate(token, now);
+    if (date) {
+      if ("error" in date) reject(token, date.error);
+      else setDate(token, date.value);
+      return true;
+    }
+    const time = parseTime(token);
+    if (time) {
+      if ("error" in time) reject(token, time.error);
+      else setTime(token, time.value);
+      return true;
+    }
+    const people = parsePeople(token, false);
+    if (people) {
+      if ("error" in people) reject(token, people.error);
+      else setPeople(token, people.value);
+      return true;
+    }
+    const budget = parseBudget(token, false);
+    if (budget) {
+      if ("error" in budget) reject(token, budget.error);
+      else setBudget(token, budget.value);
+      return true;
+    }
+    return false;
+  };
+
+  for (const token of tokenize(text)) {
+    const keyed = token.match(/^([^=]+)=(.*)$/);
+    if (keyed) {
+      applyKeyed(token, keyed[1], keyed[2]);
+      continue;
+    }
+    const piece = unquote(token);
+    if (applyFree(piece)) continue;
+
+    const dateTime = splitDateTime(piece);
+    if (dateTime) {
+      applyFree(dateTime[0]);
+      if (!applyFree(dateTime[1])) reject(piece, "時刻として解釈できません");
+      continue;
+    }
+
+    // Bare numbers from the old positional form ("六本木 5000 4 19:30"):
+    // large ones are a budget, small ones a head count.
+    if (/^\d+$/.test(piece)) {
+      const n = Number(piece);
+      if (n >= MIN_BUDGET && conditions.budget == null) {
+        applyKeyed(piece, "budget", piece);
+      } else if (n >= 1 && n <= MAX_PEOPLE && conditions.people == null) {
+        applyKeyed(piece, "people", piece);
+      } else {
+        reject(piece, "予算か人数か判断できません");
+      }
+      continue;
+    }
+
+    const malformed = MALFORMED.find(([pattern]) => pattern.test(piece));
+    if (malformed) {
+      reject(piece, malformed[1]);
+      continue;
+    }
+
+    if (KNOWN_EXTRAS.includes(piece) || conditions.area) {
+      conditions.extras.push(piece);
+    } else {
+      conditions.area = piece;
+    }
+  }
+
+  conditions.extras = [...new Set(conditions.extras)];
+  return conditions;
+}
+
+export function describeHangoutConditions(cond: HangoutConditions): string {
+  const date = cond.dateLabel
+    ? `${cond.dateLabel}(${cond.date?.slice(5).replace("-", "/")})`
+    : "未指定";
+  const parts = [
+    `エリア=${cond.area || "未指定"}`,
+    `予算=${describeBudget(cond.budget)}`,
+    `人数=${cond.people ? `${cond.people}人` : "未指定"}`,
+    `日付=${date}`,
+    `開始=${cond.time || "未指定"}`,
+  ];
+  if (cond.extras.length) {
+    parts.push(`こだわり=${cond.extras.join("・")}`);
+  }
+  return parts.join(", ");
+}
+
+// Structured view of the conditions for the planner prompt; unset fields are
+// null so the model knows to pick sensible defaults.
+export function toPromptConditions(cond: HangoutConditions) {
+  return {
+    area: cond.area ?? null,
+    budget_yen_per_person: cond.budget
+      ? { min: cond.budget.min ?? null, max: cond.budget.max ?? null }
+      : null,
+    people: cond.people ?? null,
+    date: cond.date ?? null,
+    start_time: cond.time ?? null,
+    extras: cond.extras,
+  };
+}
@@ -0,0 +1,111 @@
+import { randomUUID } from "node:crypto";
+import { createJsonStore } from "../integrations/json_store.js";
+import type { HangoutPlan } from "./hangout.js";
+
+export type HangoutPoll = {
+  id: string;
+  channelId: string;
+  messageTs?: string;
+  requesterId: string;
+  plan: HangoutPlan;
+  // userId -> candidate index
+  votes: Record<string, number>;
+  decidedIndex?: number;
+  createdAt: number;
+};
+
+const MAX_POLL_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const store = createJsonStore<Record<string, HangoutPoll>>(
+  "hangout_polls",
+  () => ({}),
+);
+
+export function getPoll(pollId: string): HangoutPoll | null {
+  return store.read()[pollId] || null;
+}
+
+export async function createPoll({
+  channelId,
+  requesterId,
+  plan,
+}: {
+  channelId: string;
+  requesterId: string;
+  plan: HangoutPlan;
+}): Promise<HangoutPoll> {
+  const poll: HangoutPoll = {
+    id: randomUUID(),
+    channelId,
+    requesterId,
+    plan,
+    votes: {},
+    createdAt: Date.now(),
+  };
+  await store.update((polls) => {
+    const cutoff = Date.now() - MAX_POLL_AGE_MS;
+    for (const [id, p] of Object.entries(polls)) {
+      if (p.createdAt < cutoff) delete polls[id];
+    }
+    polls[poll.id] = poll;
+  });
+  return poll;
+}
+
+export async function attachPollMessage(pollId: string, messageTs: string) {
+  await store.update((polls) => {
+    if (polls[pollId]) polls[pollId].messageTs = messageTs;
+  });
+}
+
+// For a poll whose message could not be posted.
+export async function deletePoll(pollId: string) {
+  await store.update((polls) => {
+    delete polls[pollId];
+  });
+}
+
+// Voting for the same candidate again withdraws the vote; voting for another
+// candidate moves it. Closed polls ignore votes.
+export async function castVote(
+  pollId: string,
+  userId: string,
+  index: number,
+): Promise<HangoutPoll | null> {
+  let updated: HangoutPoll | null = null;
+  await store.update((polls) => {
+    const poll = polls[pollId];
+    if (!poll || poll.decidedIndex !== undefined) return;
+    // The index comes from a button value; "abc" parses to NaN.
+    if (!Number.isInteger(index)) return;
+    if (index < 0 || index >= poll.plan.candidates.length) return;
+    if (poll.votes[userId] === index) {
+      delete poll.votes[userId];
+    } else {
+      poll.votes[userId] = index;
+    }
+    updated = poll;
+  });
+  return updated;
+}
+
+export function tallyVotes(poll: HangoutPoll): string[][] {
+  const voters = poll.plan.candidates.map((): string[] => []);
+  for (const [userId, index] of Object.entries(poll.votes)) {
+    voters[index]?.push(userId);
+  }
+  return voters;
+}
+
+// Picks the candidate with the most votes; ties go to the earlier candidate.
+export async function decidePoll(pollId: string): Promise<HangoutPoll | null> {
+  let decided: HangoutPoll | null = null;
+  await store.update((polls) => {
+    const poll = polls[pollId];
+    if (!poll || poll.decidedIndex !== undefined) return;
+    const counts = tallyVotes(poll).map((voters) => voters.length);
+    poll.decidedIndex = counts.indexOf(Math.max(...counts));
+    decided = poll;
+  });
+  return decided;
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { HangoutCandidate, HangoutPlan } from "./hangout.js";
+import { checkHangoutPlan, HANGOUT_PLAN_SCHEMA } from "./hangout_schema.js";
+import { validateJsonSchema } from "./structured_output.js";
+
+function candidate(overrides: Partial<HangoutCandidate> = {}) {
+  return {
+    name: "居酒屋 一",
+    reason: "駅から近い",
+    budget_yen: 4000,
+    walk_min: 3,
+    vibe: "にぎやか",
+    tabelog_url: "https://tabelog.com/tokyo/A1303/A130301/13000001/",
+    ...overrides,
+  };
+}
+
+function plan(candidates = [candidate(), candidate(), candidate()]) {
+  return { candidates, final_message: "19時に渋谷で！" };
+}
+
+test("accepts a plan with three complete candidates", () => {
+  assert.deepEqual(validateJsonSchema(plan(), HANGOUT_PLAN_SCHEMA), []);
+  assert.deepEqual(checkHangoutPlan(plan() as HangoutPlan), []);
+});
+
+test("requires exactly three candidates", () => {
+  assert.deepEqual(
+    validateJsonSchema(plan([candidate(), candidate()]), HANGOUT_PLAN_SCHEMA),
+    ["candidates must contain exactly 3 items, got 2"],
+  );
+  const four = [candidate(), candidate(), candidate(), candidate()];
+  assert.deepEqual(validateJsonSchema(plan(four), HANGOUT_PLAN_SCHEMA), [
+    "candidates must contain exactly 3 items, got 4",
+  ]);
+});
+
+test("reports missing and invalid candidate fields", () => {
+  const broken = plan([
+    candidate({ name: " " }),
+    candidate({ budget_yen: 0 }),
+    candidate({ walk_min: -1, tabelog_url: undefined }),
+  ]);
+  assert.deepEqual(validateJsonSchema(broken, HANGOUT_PLAN_SCHEMA), [
+    "candidates[0].name must be a non-empty string",
+    "candidates[1].budget_yen must be a number greater than 0 (yen per person), got 0",
+    "candidates[2].walk_min must be a number of at least 0 (minutes), got -1",
+    "candidates[2].tabelog_url must be a non-empty string (Tabelog restaurant page)",
+  ]);
+});
+
+test("accepts only Tabelog restaurant pages", () => {
+  const errors = checkHangoutPlan(
+    plan([
+      candidate({ tabelog_url: "https://s.tabelog.com/tokyo/A1303/1/" }),
+      candidate({ tabelog_url: "https://example.com/tokyo/" }),
+      candidate({ tabelog_url: "https://tabelog.com/" }),
+    ]) as HangoutPlan,
+  );
+  assert.deepEqual(errors, [
+    'candidates[1].tabelog_url must be an https://tabelog.com/ URL, got "https://example.com/tokyo/"',
+    "candidates[2].tabelog_url must point to a restaurant page, not the Tabelog top page",
+  ]);
+});
+
+test("rejects tabelog URLs that are not URLs or not https", () => {
+  const errors = checkHangoutPlan(
+    plan([
+      candidate({ tabelog_url: "tabelog.com/tokyo/1/" }),
+      candidate({ tabelog_url: "http://tabelog.com/tokyo/1/" }),
+      candidate(),
+    ]) as HangoutPlan,
+  );
+  assert.deepEqual(errors, [
+    'candidates[0].tabelog_url is not a valid URL: "tabelog.com/tokyo/1/"',
+    'candidates[1].tabelog_url must be an https://tabelog.com/ URL, got "http://tabelog.com/tokyo/1/"',
+  ]);
+});
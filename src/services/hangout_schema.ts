@@ -0,0 +1,69 @@
+import type { HangoutPlan } from "./hangout.js";
+import type { JsonSchema } from "./structured_output.js";
+
+export const CANDIDATE_COUNT = 3;
+
+const TABELOG_HOSTS = new Set(["tabelog.com", "s.tabelog.com"]);
+
+const text: JsonSchema = { type: "string", minLength: 1 };
+
+export const HANGOUT_PLAN_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["candidates", "final_message"],
+  properties: {
+    candidates: {
+      type: "array",
+      minItems: CANDIDATE_COUNT,
+      maxItems: CANDIDATE_COUNT,
+      items: {
+        type: "object",
+        required: [
+          "name",
+          "reason",
+          "budget_yen",
+          "walk_min",
+          "vibe",
+          "tabelog_url",
+        ],
+        properties: {
+          name: text,
+          reason: text,
+          budget_yen: {
+            type: "number",
+            exclusiveMinimum: 0,
+            description: "yen per person",
+          },
+          walk_min: { type: "number", minimum: 0, description: "minutes" },
+          vibe: text,
+          tabelog_url: { ...text, description: "Tabelog restaurant page" },
+        },
+      },
+    },
+    final_message: text,
+  },
+};
+
+function checkTabelogUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return `is not a valid URL: ${JSON.stringify(value)}`;
+  }
+  if (url.protocol !== "https:" || !TABELOG_HOSTS.has(url.hostname)) {
+    return `must be an https://tabelog.com/ URL, got ${JSON.stringify(value)}`;
+  }
+  if (url.pathname === "/" || url.pathname === "") {
+    return "must point to a restaurant page, not the Tabelog top page";
+  }
+  return null;
+}
+
+// What HANGOUT_PLAN_SCHEMA cannot express. Runs only on plans that already
+// match the schema; messages are fed back to the model like schema errors.
+export function checkHangoutPlan(plan: HangoutPlan): string[] {
+  return plan.candidates.flatMap((c, i) => {
+    const error = checkTabelogUrl(c.tabelog_url);
+    return error ? [`candidates[${i}].tabelog_url ${error}`] : [];
+  });
+}
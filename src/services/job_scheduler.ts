@@ -0,0 +1,200 @@
+import { AsyncResource } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import {
+  CANCELLED_TEXT,
+  createCancelledError,
+  isCancelledError,
+} from "../integrations/model_errors.js";
+
+export type JobHandle<T> = {
+  id: string;
+  result: Promise<T>;
+};
+
+type Job<T = unknown> = {
+  id: string;
+  userId?: string;
+  channelId?: string;
+  controller: AbortController;
+  run: (signal: AbortSignal) => Promise<T>;
+  onQueueUpdate?: (position: number) => void;
+  onStart?: () => void;
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+  running: boolean;
+};
+
+export type JobInfo = {
+  id: string;
+  userId?: string;
+  channelId?: string;
+  running: boolean;
+};
+
+export type JobRequest<T> = {
+  userId?: string;
+  channelId?: string;
+  run: (signal: AbortSignal) => Promise<T>;
+  onQueueUpdate?: (position: number) => void;
+  onStart?: () => void;
+};
+
+export type JobScheduler = {
+  submit: <T>(job: JobRequest<T>) => JobHandle<T>;
+  cancel: (jobId: string) => boolean;
+  get: (jobId: string) => JobInfo | null;
+  stats: () => { running: number; queued: number };
+};
+
+function countBy(jobs: Iterable<Job>, pick: (job: Job) => string | undefined) {
+  const counts = new Map<string, number>();
+  for (const job of jobs) {
+    const key = pick(job);
+    if (!key) continue;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return counts;
+}
+
+// Runs jobs with a global concurrency cap plus per-user and per-channel caps.
+// A queued job is skipped (not blocked) while its user or channel is at its
+// cap, so one busy user or channel cannot starve everyone else.
+export function createJobScheduler({
+  maxConcurrent,
+  maxPerUser,
+  maxPerChannel,
+}: {
+  maxConcurrent: number;
+  maxPerUser: number;
+  maxPerChannel: number;
+}): JobScheduler {
+  const queue: Job[] = [];
+  const running = new Map<string, Job>();
+
+  const notifyPositions = () => {
+    queue.forEach((job, index) => job.onQueueUpdate?.(index + 1));
+  };
+
+  const start = (job: Job) => {
+    job.running = true;
+    running.set(job.id, job);
+    job.onStart?.();
+    Promise.resolve()
+      .then(() => job.run(job.controller.signal))
+      .then(job.resolve, job.reject)
+      .finally(() => {
+        running.delete(job.id);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    let started = false;
+    while (running.size < maxConcurrent) {
+      const perUser = countBy(running.values(), (j) => j.userId);
+      const perChannel = countBy(running.values(), (j) => j.channelId);
+      const index = queue.findIndex(
+        (job) =>
+          (!job.userId || (perUser.get(job.userId) || 0) < maxPerUser) &&
+          (!job.channelId ||
+            (perChannel.get(job.channelId) || 0) < maxPerChannel),
+      );
+      if (index === -1) break;
+      const [job] = queue.splice(index, 1);
+      start(job);
+      started = true;
+    }
+    if (started) notifyPositions();
+  };
+
+  return {
+    submit: <T>({
+      userId,
+      channelId,
+      run,
+      onQueueUpdate,
+      onStart,
+    }: JobRequest<T>) => {
+      let resolve: (value: T) => void;
+      let reject: (reason: unknown) => void;
+      const result = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      // Queued jobs are started from whichever job finished last; binding
+      // keeps the submitter's async context (e.g. its log request id).
+      const job: Job<T> = {
+        id: randomUUID(),
+        userId,
+        channelId,
+        controller: new AbortController(),
+        run: AsyncResource.bind(run),
+        onQueueUpdate: onQueueUpdate && AsyncResource.bind(onQueueUpdate),
+        onStart: onStart && AsyncResource.bind(onStart),
+        resolve,
+        reject,
+        running: false,
+      };
+      queue.push(job);
+      pump();
+      if (!job.running) job.onQueueUpdate?.(queue.indexOf(job) + 1);
+      return { id: job.id, result };
+    },
+    cancel: (jobId) => {
+      const active = running.get(jobId);
+      if (active) {
+        active.controller.abort();
+        return true;
+      }
+      const index = queue.findIndex((job) => job.id === jobId);
+      if (index === -1) return false;
+      const [job] = queue.splice(index, 1);
+      job.controller.abort();
+      job.reject(createCancelledError());
+      notifyPositions();
+      return true;
+    },
+    get: (jobId) => {
+      const job = running.get(jobId) || queue.find((j) => j.id === jobId);
+      if (!job) return null;
+      const { id, userId, channelId } = job;
+      return { id, userId, channelId, running: job.running };
+    },
+    stats: () => ({ running: running.size, queued: queue.length }),
+  };
+}
+
+export function formatQueuePosition(position: number) {
+  return `${position}番目に待機中`;
+}
+
+// Resolves to the job result, or to a cancellation notice when the job was
+// cancelled while still waiting in the queue.
+export async function awaitJobResult<T extends { text: string }>(
+  result: Promise<T>,
+): Promise<T | { ok: false; text: string; cancelled: true }> {
+  try {
+    return await result;
+  } catch (e) {
+    if (!isCancelledError(e)) throw e;
+    return { ok: false, text: CANCELLED_TEXT, cancelled: true };
+  }
+}
+
+function readLimit(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+let defaultScheduler: JobScheduler | null = null;
+
+export function getJobScheduler(): JobScheduler {
+  if (!defaultScheduler) {
+    defaultScheduler = createJobScheduler({
+      maxConcurrent: readLimit(process.env.CODEX_MAX_CONCURRENCY, 2),
+      maxPerUser: readLimit(process.env.CODEX_MAX_PER_USER, 1),
+      maxPerChannel: readLimit(process.env.CODEX_MAX_PER_CHANNEL, 2),
+    });
+  }
+  return defaultScheduler;
+}
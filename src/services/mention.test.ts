@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createFakeBackend } from "../integrations/fake_model_client.js";
+import type {
+  FakeResponse,
+  ModelBackend,
+  ModelRequest,
+} from "../integrations/model_backend.js";
+import { CANCELLED_TEXT } from "../integrations/model_errors.js";
+import { respondMention, type ProgressPayload } from "./mention.js";
+
+// The fake backend, recording every request it gets.
+function scriptedBackend(responses: FakeResponse[]) {
+  const fake = createFakeBackend({ kind: "fake", responses });
+  const requests: ModelRequest[] = [];
+  const backend: ModelBackend = {
+    name: "fake",
+    run: (request) => {
+      requests.push(request);
+      return fake.run(request);
+    },
+  };
+  return { backend, requests };
+}
+
+const judgement = (points: number, gaps: string[] = []) =>
+  JSON.stringify({
+    correctness: points,
+    coverage: points,
+    formatting: points,
+    gaps,
+  });
+
+function respond(
+  backend: ModelBackend,
+  options: Partial<Parameters<typeof respondMention>[0]> = {},
+) {
+  return respondMention({
+    slackText: "デプロイ手順を教えて",
+    workdir: process.cwd(),
+    slackContext: null,
+    backend,
+    ...options,
+  });
+}
+
+test("streams a single-pass answer", async () => {
+  const { backend, requests } = scriptedBackend(["**手順**は次のとおり"]);
+  const progress: ProgressPayload[] = [];
+  const result = await respond(backend, {
+    maxRefines: 0,
+    onProgress: (payload) => void progress.push(payload),
+  });
+  assert.equal(result.ok, true);
+  assert.equal(result.text, "*手順* は次のとおり");
+  assert.equal(result.refined, false);
+  assert.deepEqual(requests.map((r) => r.purpose), ["draft"]);
+  assert.equal(progress[0].stage, "streaming");
+  assert.equal(progress[0].text, "*手順* は次のとおり");
+  assert.deepEqual(progress.at(-1), {
+    stage: "draft",
+    text: "*手順* は次のとおり",
+    pass: 1,
+    totalPasses: 1,
+    pending: false,
+    scores: [],
+  });
+});
+
+test("refines the draft with the judge's gaps until the target", async () => {
+  const { backend, requests } = scriptedBackend([
+    "下書き",
+    judgement(5, ["ロールバック手順がない"]),
+    "改善版",
+    judgement(10),
+  ]);
+  const result = await respond(backend, { maxRefines: 3 });
+  assert.equal(result.ok, true);
+  assert.equal(result.text, "改善版");
+  assert.equal(result.refined, true);
+  assert.deepEqual(result.scores.map((s) => s.score), [50, 100]);
+  assert.deepEqual(
+    requests.map((r) => r.purpose),
+    ["draft", "judge", "refine", "judge"],
+  );
+  assert.match(requests[2].prompt, /ロールバック手順がない/);
+});
+
+test("keeps the better draft when a rewrite scores lower", async () => {
+  const { backend } = scriptedBackend([
+    "下書き",
+    judgement(7),
+    "悪化版",
+    judgement(4),
+  ]);
+  const result = await respond(backend, { maxRefines: 1 });
+  assert.equal(result.text, "下書き");
+  assert.equal(result.refined, false);
+});
+
+test("reports a failed draft as an error reply", async () => {
+  const { backend } = scriptedBackend([{ error: "boom" }]);
+  const result = await respond(backend, { maxRefines: 0 });
+  assert.equal(result.ok, false);
+  assert.match(result.text, /^⚠️ 返信を生成できませんでした。/);
+});
+
+test("cancels the job while drafting", async () => {
+  const { backend } = scriptedBackend([{ text: "遅い回答", delayMs: 5000 }]);
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 20);
+  const result = await respond(backend, {
+    maxRefines: 2,
+    signal: controller.signal,
+  });
+  assert.deepEqual(result, {
+    ok: false,
+    text: CANCELLED_TEXT,
+    cancelled: true,
+  });
+});
+
+test("stopping during refinement keeps the best answer so far", async () => {
+  const { backend } = scriptedBackend([
+    "下書き",
+    judgement(5),
+    { text: "改善版", delayMs: 5000 },
+  ]);
+  const stop = new AbortController();
+  const result = await respond(backend, {
+    maxRefines: 2,
+    stopSignal: stop.signal,
+    onProgress: (payload) => {
+      if (payload.stage === "draft") setTimeout(() => stop.abort(), 20);
+    },
+  });
+  assert.equal(result.ok, true);
+  assert.equal(result.text, "下書き");
+  assert.equal(result.cancelled, false);
+});
+
+test("formats bullets in the style of the request's language", async () => {
+  const { backend } = scriptedBackend(["Steps:\n- build\n- deploy"]);
+  const result = await respond(backend, {
+    slackText: "How do I deploy this service?",
+    maxRefines: 0,
+  });
+  assert.equal(result.text, "Steps:\n• build\n• deploy");
+});
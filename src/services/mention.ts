@@ -1,10 +1,50 @@
-import { runCodexExec, type ExecError } from "../integrations/codex_client.js";
-import { type SlackContext } from "../integrations/slack_api.js";
+import {
+  CANCELLED_TEXT,
+  createModelError,
+  describeModelError,
+  isCancelledError,
+  toModelError,
+  type ModelError,
+} from "../integrations/model_errors.js";
+import {
+  getModelBackend,
+  type ModelBackend,
+  type ModelEvent,
+  type ModelOptions,
+} from "../integrations/model_backend.js";
+import { type ConversationTurn } from "./thread_sessions.js";
+import {
+  type SlackContext,
+  type SlackContextMessage,
+} from "../integrations/slack_api.js";
+import { lintSlackMrkdwn } from "../integrations/slack_formatters.js";
+import { logger } from "../integrations/logger.js";
+import { metrics } from "../integrations/metrics.js";
+import { redactPromptInput } from "../integrations/redaction.js";
+import type { DownloadedAttachments } from "../integrations/slack_files.js";
+import {
+  packSlackContext,
+  type PackedSlackContext,
+  type ThreadSummarizer,
+} from "./context_packer.js";
+import {
+  detectTextLocale,
+  renderPrompt,
+  resolvePromptLocale,
+} from "./prompt_templates.js";
+import type { RepoContext } from "./repo_registry.js";
+import {
+  getJudgeConfig,
+  judgeAnswer,
+  shouldRefineAgain,
+  type QualityScore,
+} from "./answer_judge.js";
 
-const INCOMPLETE_MARKER = "※暫定回答";
-const INCOMPLETE_SUFFIX = "（追記予定）";
 const DEFAULT_MAX_REFINES = 4;
 const DRAFT_COMPLETENESS = 50;
+const SUMMARY_TIMEOUT_MS = 60_000;
+const BROADCAST_REQUEST_PATTERN =
+  /<!(channel|here|everyone)>|@(channel|here|everyone)|全員に(通知|メンション)/i;
 
 type PromptMeta = {
   pass: number;
@@ -13,22 +53,29 @@ type PromptMeta = {
   isFinal: boolean;
 };
 
-type ProgressPayload = {
-  stage: "draft" | "refined";
+export type ProgressPayload = {
+  stage: "streaming" | "draft" | "refined";
   text: string;
   pass: number;
   totalPasses: number;
   pending: boolean;
+  activity?: string;
+  // Scores of every judged candidate so far, oldest first.
+  scores?: QualityScore[];
 };
 
-function escapeRegExp(value: string) {
-  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
+// Files attached to the mention, already downloaded.
+export type MentionAttachments = Pick<DownloadedAttachments, "images" | "texts">;
 
-const INCOMPLETE_MARKER_PATTERN = new RegExp(
-  `${escapeRegExp(INCOMPLETE_MARKER)}\\s*${escapeRegExp(INCOMPLETE_SUFFIX)}?`,
-  "g",
-);
+export type MentionResult = {
+  ok: boolean;
+  text: string;
+  refined?: boolean;
+  cancelled?: boolean;
+  sessionId?: string;
+  scores?: QualityScore[];
+  debug?: Record<string, unknown>;
+};
 
 function getTargetCompleteness(pass: number, totalPasses: number): number {
   if (totalPasses <= 1) return 100;
@@ -48,59 +95,46 @@ function buildMeta(pass: number, totalPasses: number): PromptMeta {
 }
 
 function buildInputSection(
-  slackText: string,
-  slackContext: SlackContext | null,
-  draft?: string,
+  locale: string,
+  {
+    slackText,
+    slackContext,
+    draft,
+    history,
+    attachments,
+  }: {
+    slackText: string;
+    slackContext: PackedSlackContext | null;
+    draft?: string;
+    history?: ConversationTurn[];
+    attachments?: MentionAttachments;
+  },
 ): string {
-  const base = `
-ユーザーメッセージ:
-${JSON.stringify(slackText)}
-
-Slack コンテキスト（JSON / ある場合）:
-${JSON.stringify(slackContext || null)}
-  `.trim();
-
-  if (!draft) return base;
-
-  return `${base}\n\nドラフト回答:\n${JSON.stringify(draft)}`;
+  const files = (attachments?.texts || []).map((file) =>
+    renderPrompt("attachment", locale, {
+      name: file.name,
+      truncated: Boolean(file.truncated),
+      text: JSON.stringify(file.text),
+    }),
+  );
+  return renderPrompt("input", locale, {
+    history: history?.length ? JSON.stringify(history) : "",
+    slackText: JSON.stringify(slackText),
+    slackContext: JSON.stringify(slackContext || null),
+    images: attachments?.images.length || 0,
+    files: files.join("\n\n"),
+    draft: draft ? JSON.stringify(draft) : "",
+  });
 }
 
-function buildSlackReadabilityRules(): string {
-  return `
-トーン:
-・自然体
-・くだけた口調で良い
-・過剰に整理しない
-・「結論」「背景」「次の一手」などの見出しは禁止
-・AIっぽい定型構造は禁止
-・自分をAIと名乗らない
-・「なんか人が書いたっぽい文章」を意識する
-
-Slack可読性ルール（厳守）:
-・Slackのmrkdwnのみ使用: *太字* / \`inline code\` / \`\`\`code block\`\`\`
-・リンクは <https://example.com|表示名> 形式を優先（生URLも可）。
-・箇条書きは必ず「・」を使う。
-  ・適切にインデントして、階層構造を示すのも良い。
-・適切に空行を入れ、長い1段落を避ける。
-
-禁止:
-・Markdownリンク [text](url)
-・# 見出し記法、HTMLタグ、表形式
-・不要な前置きや過度な装飾
-・広域メンション（<!here> <!channel> <!everyone>）※明示依頼時のみ
-・* 〜 * のような空白入り記法
-・「これは*重要*です」のような記法
-  ・「これは *重要* です」と書く
-  ・「・ *これは重要* です」と書く
-  ・「これは、 *重要* です」と書く
-
-分量目安:
-・基本は4〜20行。必要時のみ少し追記。
-・1メッセージで完結。内部手順の長文説明はしない。
-  `.trim();
-}
-
-function getRefineConfig() {
+// maxRefinesOverride (e.g. from channel settings) wins over the environment;
+// 0 means single-pass answers.
+function getRefineConfig(maxRefinesOverride?: number) {
+  if (maxRefinesOverride !== undefined) {
+    const maxRefines = Math.max(0, Math.floor(maxRefinesOverride));
+    const totalPasses = 1 + maxRefines;
+    return { enabled: maxRefines > 0, maxRefines, totalPasses };
+  }
   const enabled =
     process.env.CODEX_REFINE === undefined ||
     (process.env.CODEX_REFINE !== "0" && process.env.CODEX_REFINE !== "false");
@@ -115,215 +149,684 @@ function getRefineConfig() {
   return { enabled, maxRefines, totalPasses };
 }
 
-function buildCommonPromptPolicies(): string {
-  return `
-共通ルール:
-• 日本語で、簡潔・実用的に答える。
-• 結論を先に書き、必要なら理由と次の一手を続ける。
-• 内部手順・思考過程・ツール実行ログは書かない。
-• 不確実な点は断定せず「前提」または「可能性」として示す。
-• 情報不足で回答不能な場合のみ、質問は最大1つ。
-
-${buildSlackReadabilityRules()}
+// The language of a request: `locale` picks the templates, and
+// `replyLanguage` is only set for canned requests, whose text says nothing
+// about the requester's own language.
+type PromptLanguage = { locale: string; replyLanguage: string };
 
-軽量実行ルール:
-• 追加処理は合計 ~30 秒以内。超えそうなら既知情報で回答する。
-• 外部事実・最新性・比較が少しでも関係する場合は、回答前に必ずWeb検索して確認する。
-• Web検索は遠慮なく使ってよい。必要に応じて最大10件まで確認する。
-• 検索結果は複数ソースを照合し、古い情報や不一致があればその旨を短く明記する。
-• Docs確認はこのリポジトリの実装質問のみ。開くファイルは1〜2件。
-
-ローカル作業コンテキスト:
-• この Slack エージェントは \`my-agent-workbench\` で動作する。
-• \`my-agent-workbench/docs/\` は必要時のみ参照・要約に使ってよい。
+function resolveLanguage(
+  slackText: string,
+  userText: string | undefined,
+  slackContext: SlackContext | null,
+): PromptLanguage {
+  const userLocale = slackContext?.request_user?.locale;
+  if (userText === undefined) {
+    return {
+      locale: resolvePromptLocale({ text: slackText, userLocale }),
+      replyLanguage: "",
+    };
+  }
+  return {
+    locale: resolvePromptLocale({ text: userText, userLocale }),
+    replyLanguage: detectTextLocale(userText) || userLocale || "",
+  };
+}
 
-出力制約:
-• Slackに投稿する本文のみ出力する。
-• JSON・前置き・自己紹介・メタ説明は出力しない。
-• 出力直前に自己チェックし、Slack記法違反があれば必ず自分で修正してから出力する。
-  `.trim();
+// The shared rules, including what the run may know about its repository.
+function buildCommonPolicies(
+  { locale, replyLanguage }: PromptLanguage,
+  repo: RepoContext | null,
+) {
+  return renderPrompt("common", locale, {
+    replyLanguage,
+    repoName: repo?.name || "",
+    repoDescription: repo?.description || "",
+    docs: (repo?.docs || []).map((doc) => `\`${doc}\``).join(", "),
+    readOnly: repo?.readOnly ?? true,
+  });
 }
 
 function buildMentionPrompt(
+  language: PromptLanguage,
+  repo: RepoContext | null,
   slackText: string,
-  slackContext: SlackContext | null,
+  slackContext: PackedSlackContext | null,
   meta: PromptMeta,
+  history?: ConversationTurn[],
+  attachments?: MentionAttachments,
 ): string {
-  return `
-あなたは Slack チャンネルで返信するアシスタントです。
-返信フェーズ: ${meta.pass}/${meta.totalPasses}（${meta.isFinal ? "最終回答" : "ドラフト"}）
-今回の目標完成度: ${meta.targetPercent}%
-
-このフェーズの目的:
-• できるだけ速く、役に立つ一次回答を返す。
-• まず短く結論を示し、必要最小限の理由と手順を添える。
-• 可能なら参考リンクを添える。
-
-ドラフト運用ルール:
-• 不足があっても、わかる範囲で有用な回答を返す。
-• ${meta.isFinal ? "最終回なので不完全マーカーは付けない。可能な限り完成させる。" : `回答が未完成なら末尾に「${INCOMPLETE_MARKER}${INCOMPLETE_SUFFIX}」を必ず付ける。`}
-• 不足が致命的な場合のみ、質問は最大1つ。
-• 出力直前に、\`* 〜 *\` などの禁止された記法が残っていないか確認する。
-
-${buildCommonPromptPolicies()}
-
-入力:
-${buildInputSection(slackText, slackContext)}
-  `.trim();
+  return renderPrompt("mention", language.locale, {
+    ...meta,
+    common: buildCommonPolicies(language, repo),
+    input: buildInputSection(language.locale, {
+      slackText,
+      slackContext,
+      history,
+      attachments,
+    }),
+  });
 }
 
 function buildRefinePrompt({
+  language,
+  repo,
   slackText,
   slackContext,
   draft,
+  gaps,
   meta,
+  focus,
+  history,
+  attachments,
 }: {
+  language: PromptLanguage;
+  repo: RepoContext | null;
   slackText: string;
-  slackContext: SlackContext | null;
+  slackContext: PackedSlackContext | null;
   draft: string;
+  // Problems the judge found in the draft; they lead the rewrite.
+  gaps?: string[];
   meta: PromptMeta;
+  focus?: "depth";
+  history?: ConversationTurn[];
+  attachments?: MentionAttachments;
 }): string {
-  return `
-あなたは Slack チャンネルで返信するアシスタントです。
-返信フェーズ: ${meta.pass}/${meta.totalPasses}（改善）
-今回の目標完成度: ${meta.targetPercent}%
-
-このフェーズの目的:
-• ドラフトを、より正確で実用的な回答に改善する。
-• Web検索等を活用して、情報不足を補う。
-• 不足補完・誤り修正・曖昧表現の解消を優先する。
-• 良い部分は残し、必要な箇所だけを改善する。
+  return renderPrompt("refine", language.locale, {
+    ...meta,
+    gaps: (gaps || []).map((gap) => `• ${gap}`).join("\n"),
+    depth: focus === "depth",
+    common: buildCommonPolicies(language, repo),
+    input: buildInputSection(language.locale, {
+      slackText,
+      slackContext,
+      draft,
+      history,
+      attachments,
+    }),
+  });
+}
 
-改善ルール:
-• ドラフトの主張が根拠薄い場合は、断定を弱めるか前提を明記する。
-• 回答は具体的な次アクションにつなげる。
-• ドラフトに「${INCOMPLETE_MARKER}」がある場合は、補完できたら必ず削除する。
-• ${meta.isFinal ? "最終回ではマーカーを残さない。必要なら前提を明記し、質問は最大1つまで。" : "補完後も不足が残る場合のみ、マーカーを残してよい。"}
-• 出力直前に、Slack表示が崩れる記法（\`* 〜 *\`、Markdownリンク、見出し\`#\`）を除去・修正する。
+function buildJudgePrompt({
+  language,
+  repo,
+  slackText,
+  slackContext,
+  answer,
+  history,
+  attachments,
+}: {
+  language: PromptLanguage;
+  repo: RepoContext | null;
+  slackText: string;
+  slackContext: PackedSlackContext | null;
+  answer: string;
+  history?: ConversationTurn[];
+  attachments?: MentionAttachments;
+}): string {
+  return renderPrompt("judge", language.locale, {
+    common: buildCommonPolicies(language, repo),
+    input: buildInputSection(language.locale, {
+      slackText,
+      slackContext,
+      history,
+      attachments,
+    }),
+    answer: JSON.stringify(answer),
+  });
+}
 
-${buildCommonPromptPolicies()}
+function buildThreadSummaryPrompt(
+  locale: string,
+  messages: SlackContextMessage[],
+): string {
+  return renderPrompt("thread_summary", locale, {
+    messages: JSON.stringify(
+      messages.map(({ user_name, user, text }) => ({
+        user: user_name || user,
+        text,
+      })),
+    ),
+  });
+}
 
-入力:
-${buildInputSection(slackText, slackContext, draft)}
-  `.trim();
+// Summaries run without web search and with a short timeout; they only
+// condense what is already in the thread.
+function createThreadSummarizer({
+  locale,
+  backend,
+  workdir,
+  signal,
+  modelOptions,
+}: {
+  locale: string;
+  backend: ModelBackend;
+  workdir: string;
+  signal?: AbortSignal;
+  modelOptions?: ModelOptions;
+}): ThreadSummarizer {
+  return async (messages) => {
+    const { text } = await backend.run({
+      prompt: buildThreadSummaryPrompt(locale, messages),
+      purpose: "summary",
+      cwd: workdir,
+      signal,
+      timeoutMs: SUMMARY_TIMEOUT_MS,
+      options: { ...modelOptions, webSearch: false },
+    });
+    return text || "";
+  };
 }
 
-function stripIncompleteMarker(text: string): string {
-  let out = text || "";
-  out = out.replace(INCOMPLETE_MARKER_PATTERN, "");
-  return out
+function tidyText(text: string): string {
+  return (text || "")
     .replace(/[ \t]{2,}/g, " ")
     .replace(/\n{3,}/g, "\n\n")
     .trim();
 }
 
-function diagnoseFailure(err: ExecError) {
-  const msg = `${err?.message ?? ""}\n${err?.stderr ?? ""}`.toLowerCase();
-  if (msg.includes("enoent") || msg.includes("spawn codex")) {
-    return "Codex CLI not found. Make sure `codex` is installed and on PATH.";
-  }
-  if (
-    msg.includes("login") ||
-    msg.includes("not logged in") ||
-    msg.includes("auth")
-  ) {
-    return "Codex CLI authentication required. Run `codex login` and try again.";
+// Everything shown in Slack goes through the mrkdwn linter, since the
+// readability rules in the prompt are not always followed. Fired rules are
+// logged per pass (label) to track how often the model slips.
+// How answers are linted for display: broadcast mentions only when asked
+// for, and bullets in the style of the prompt locale.
+type DisplayOptions = { allowBroadcast: boolean; locale: string };
+
+function toDisplayText(
+  text: string,
+  display: DisplayOptions,
+  label?: string,
+): string {
+  const linted = lintSlackMrkdwn(tidyText(text), display);
+  if (label && Object.keys(linted.fired).length) {
+    logger.info("slack mrkdwn lint fired", {
+      pass: label,
+      fired: linted.fired,
+    });
   }
-  if (msg.includes("timed out")) {
-    return "Codex timed out. Shorten the request or increase the timeout.";
+  return linted.text;
+}
+
+function describeToolEvent(event: ModelEvent & { type: "tool" }): string {
+  const detail = event.detail ? `: ${event.detail}` : "";
+  switch (event.tool) {
+    case "web_search":
+      return `Web検索中${detail}`;
+    case "command":
+      return "コマンド実行中";
+    case "file_change":
+      return "ファイル編集中";
+    default:
+      return `ツール実行中${detail}`;
   }
-  return "Codex execution failed. Check server stderr for details.";
+}
+
+// Streams one pass into onProgress. The draft pass shows text as it arrives;
+// refine and deepen passes keep the previous answer on screen and only report
+// activity, since their intermediate messages are usually commentary.
+function createStreamHandler({
+  pass,
+  totalPasses,
+  currentText,
+  streamText,
+  display,
+  onProgress,
+}: {
+  pass: number;
+  totalPasses: number;
+  currentText: string;
+  streamText: boolean;
+  display: DisplayOptions;
+  onProgress?: (payload: ProgressPayload) => void;
+}) {
+  if (!onProgress) return undefined;
+  let text = currentText;
+  let activity: string | undefined;
+  return (event: ModelEvent) => {
+    if (event.type === "text") {
+      if (!streamText) return;
+      text = toDisplayText(event.text, display);
+      activity = undefined;
+    } else {
+      activity = describeToolEvent(event);
+    }
+    onProgress({
+      stage: "streaming",
+      text,
+      pass,
+      totalPasses,
+      pending: true,
+      activity,
+    });
+  };
 }
 
 export async function respondMention({
   slackText,
+  userText,
   workdir,
   slackContext,
   onProgress,
+  backend = getModelBackend(),
+  signal,
+  stopSignal,
+  history,
+  sessionId,
+  modelOptions,
+  maxRefines,
+  attachments,
+  repo = null,
 }: {
   slackText: string;
+  // What the requester wrote themselves when slackText is a canned request
+  // (the message shortcut); the reply language follows it, else their Slack
+  // locale. Unset for ordinary requests.
+  userText?: string;
   workdir: string;
   slackContext: SlackContext | null;
   onProgress?: (payload: ProgressPayload) => void;
-}) {
-  const refineConfig = getRefineConfig();
-  const meta = buildMeta(1, refineConfig.totalPasses);
-  const prompt = buildMentionPrompt(slackText, slackContext, meta);
+  backend?: ModelBackend;
+  signal?: AbortSignal;
+  stopSignal?: AbortSignal;
+  history?: ConversationTurn[];
+  sessionId?: string;
+  modelOptions?: ModelOptions;
+  maxRefines?: number;
+  attachments?: MentionAttachments;
+  // The repository in workdir; null when the run may not see one.
+  repo?: RepoContext | null;
+}): Promise<MentionResult> {
+  ({ slackText, slackContext, history, attachments } = redactPromptInput(
+    { slackText, slackContext, history, attachments },
+    "mention",
+  ));
+  const language = resolveLanguage(slackText, userText, slackContext);
+  const { locale } = language;
+  // stopSignal ends refinement but keeps the best answer so far; signal
+  // cancels the whole job.
+  const refineSignal =
+    signal && stopSignal
+      ? AbortSignal.any([signal, stopSignal])
+      : signal || stopSignal;
+  const refineConfig = getRefineConfig(maxRefines);
+  const judgeConfig = getJudgeConfig();
+  // Several drafts only help if they can be compared, so they come with
+  // judging like refinement does.
+  const judging = refineConfig.enabled || judgeConfig.draftCandidates > 1;
+  const display: DisplayOptions = {
+    allowBroadcast: BROADCAST_REQUEST_PATTERN.test(slackText),
+    locale,
+  };
+  const scores: QualityScore[] = [];
+  let refinePasses = 0;
   try {
-    const { stdout } = await runCodexExec({ prompt, cwd: workdir });
-    let draftInternal = (stdout || "").trim();
-    if (!draftInternal) {
-      throw new Error("Empty response from codex.");
+    // Packed once so every pass sends the same, budgeted context.
+    const packedContext = await packSlackContext({
+      slackText,
+      slackContext,
+      history,
+      summarize: createThreadSummarizer({
+        locale,
+        backend,
+        workdir,
+        signal,
+        modelOptions,
+      }),
+      signal,
+    });
+
+    // A failed judge gives null; only a cancelled job is an error here.
+    const judge = async (
+      answer: string,
+      pass: number,
+      currentText: string,
+    ): Promise<QualityScore | null> => {
+      onProgress?.({
+        stage: "streaming",
+        text: currentText,
+        pass,
+        totalPasses: refineConfig.totalPasses,
+        pending: true,
+        activity: "回答を評価中",
+      });
+      try {
+        const score = await judgeAnswer({
+          prompt: buildJudgePrompt({
+            language,
+            repo,
+            slackText,
+            slackContext: packedContext,
+            answer,
+            history,
+            attachments,
+          }),
+          pass,
+          backend,
+          workdir,
+          signal: refineSignal,
+          modelOptions,
+          images: attachments?.images,
+        });
+        scores.push(score);
+        return score;
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        if (!isCancelledError(e)) {
+          logger.warn("answer judge failed", {
+            pass,
+            error: (e as ModelError)?.message,
+          });
+        }
+        return null;
+      }
+    };
+
+    const meta = buildMeta(1, refineConfig.totalPasses);
+    const prompt = buildMentionPrompt(
+      language,
+      repo,
+      slackText,
+      packedContext,
+      meta,
+      history,
+      attachments,
+    );
+    // Only the first draft streams and continues the thread's backend
+    // session; extra candidates and refine passes are one-off runs. They
+    // run one after another: the job holds a single scheduler slot, so
+    // parallel runs would get around CODEX_MAX_CONCURRENCY.
+    const draftCount = judging ? judgeConfig.draftCandidates : 1;
+    const drafts: string[] = [];
+    let draftSessionId: string | undefined;
+    let draftError: unknown = null;
+    for (let i = 0; i < draftCount; i += 1) {
+      try {
+        const run = await backend.run({
+          prompt,
+          purpose: "draft",
+          cwd: workdir,
+          signal,
+          sessionId: i === 0 ? sessionId : undefined,
+          options: modelOptions,
+          images: attachments?.images,
+          onEvent:
+            i === 0
+              ? createStreamHandler({
+                  pass: 1,
+                  totalPasses: refineConfig.totalPasses,
+                  currentText: "",
+                  streamText: true,
+                  display,
+                  onProgress,
+                })
+              : undefined,
+        });
+        if (i === 0) draftSessionId = run.sessionId;
+        if (run.text?.trim()) drafts.push(run.text.trim());
+      } catch (e) {
+        if (isCancelledError(e) || signal?.aborted) throw e;
+        draftError ??= e;
+      }
     }
-    const draftDisplay = stripIncompleteMarker(draftInternal);
+    if (!drafts.length) {
+      throw (
+        draftError ||
+        createModelError("model_error", "Empty response from model.")
+      );
+    }
+
+    let best: { internal: string; score: QualityScore | null } = {
+      internal: drafts[0],
+      score: null,
+    };
+    if (judging) {
+      const streamed = toDisplayText(drafts[0], display);
+      for (const draft of drafts) {
+        const score = await judge(draft, 1, streamed);
+        if (score && score.score > (best.score?.score ?? -1)) {
+          best = { internal: draft, score };
+        }
+      }
+    }
+    const draftInternal = best.internal;
+    let bestDisplay = toDisplayText(draftInternal, display, "draft");
+    // Without a score (every judge failed) one refine pass still runs, just
+    // without gaps to work from.
+    let keepRefining =
+      refineConfig.enabled &&
+      (!best.score || shouldRefineAgain(scores, judgeConfig));
     await onProgress?.({
       stage: "draft",
-      text: draftDisplay,
+      text: bestDisplay,
       pass: 1,
       totalPasses: refineConfig.totalPasses,
-      pending: refineConfig.enabled && refineConfig.maxRefines > 0,
+      pending: keepRefining,
+      scores: [...scores],
     });
-    if (refineConfig.enabled) {
-      let currentInternal = draftInternal;
-      let currentDisplay = draftDisplay;
-      for (let attempt = 0; attempt < refineConfig.maxRefines; attempt += 1) {
-        const pass = attempt + 2;
-        const refinePrompt = buildRefinePrompt({
-          slackText,
-          slackContext,
-          draft: currentInternal,
-          meta: buildMeta(pass, refineConfig.totalPasses),
+
+    // Every pass rewrites the best candidate so far, led by the gaps the
+    // judge found in it. A worse rewrite is dropped, and the loop ends
+    // once the best score reaches the target or stops improving. A rewrite
+    // of an unscored candidate is kept, and a failed judge ends the loop.
+    for (
+      let attempt = 0;
+      keepRefining && attempt < refineConfig.maxRefines;
+      attempt += 1
+    ) {
+      if (stopSignal?.aborted) break;
+      const pass = attempt + 2;
+      const refinePrompt = buildRefinePrompt({
+        language,
+        repo,
+        slackText,
+        slackContext: packedContext,
+        draft: best.internal,
+        gaps: best.score?.gaps,
+        meta: buildMeta(pass, refineConfig.totalPasses),
+        history,
+        attachments,
+      });
+      try {
+        refinePasses += 1;
+        const { text: refinedText } = await backend.run({
+          prompt: refinePrompt,
+          purpose: "refine",
+          cwd: workdir,
+          signal: refineSignal,
+          options: modelOptions,
+          images: attachments?.images,
+          onEvent: createStreamHandler({
+            pass,
+            totalPasses: refineConfig.totalPasses,
+            currentText: bestDisplay,
+            streamText: false,
+            display,
+            onProgress,
+          }),
         });
-        try {
-          const { stdout: refinedStdout } = await runCodexExec({
-            prompt: refinePrompt,
-            cwd: workdir,
-          });
-          const refinedInternal = (refinedStdout || "").trim();
-          if (refinedInternal && refinedInternal !== currentInternal) {
-            currentInternal = refinedInternal;
-            currentDisplay = stripIncompleteMarker(currentInternal);
-            const remaining = refineConfig.maxRefines - attempt - 1;
-            await onProgress?.({
-              stage: "refined",
-              text: currentDisplay,
-              pass,
-              totalPasses: refineConfig.totalPasses,
-              pending:
-                currentInternal.includes(INCOMPLETE_MARKER) && remaining > 0,
-            });
-          }
-          if (!currentInternal.includes(INCOMPLETE_MARKER)) {
-            return { ok: true, text: currentDisplay, refined: true };
-          }
-        } catch (e) {
-          console.warn("respondMention refine failed", {
-            error: (e as ExecError)?.message,
-            stderr: (e as ExecError)?.stderr,
-            stdout: (e as ExecError)?.stdout,
-          });
-          break;
+        const refinedInternal = (refinedText || "").trim();
+        if (!refinedInternal || refinedInternal === best.internal) break;
+        const score = await judge(refinedInternal, pass, bestDisplay);
+        if (!best.score || (score && score.score > best.score.score)) {
+          best = { internal: refinedInternal, score };
+          bestDisplay = toDisplayText(
+            refinedInternal,
+            display,
+            `refine ${pass}`,
+          );
         }
-      }
-      if (currentInternal !== draftInternal) {
-        return { ok: true, text: currentDisplay, refined: true };
+        keepRefining =
+          Boolean(score) &&
+          attempt + 1 < refineConfig.maxRefines &&
+          shouldRefineAgain(scores, judgeConfig);
+        await onProgress?.({
+          stage: "refined",
+          text: bestDisplay,
+          pass,
+          totalPasses: refineConfig.totalPasses,
+          pending: keepRefining,
+          scores: [...scores],
+        });
+      } catch (e) {
+        if (isCancelledError(e)) {
+          return {
+            ok: true,
+            text: bestDisplay,
+            refined: best.internal !== draftInternal,
+            cancelled: Boolean(signal?.aborted),
+            sessionId: draftSessionId,
+            scores,
+          };
+        }
+        logger.warn("respondMention refine failed", {
+          error: (e as ModelError)?.message,
+          stderr: (e as ModelError)?.stderr,
+          stdout: (e as ModelError)?.stdout,
+        });
+        break;
       }
     }
 
-    return { ok: true, text: draftDisplay, refined: false };
+    if (scores.length) {
+      logger.info("mention quality scores", {
+        scores: scores.map((s) => s.score),
+        best: best.score?.score,
+      });
+      if (best.score) metrics.mentionQualityScore.observe(best.score.score);
+    }
+    return {
+      ok: true,
+      text: bestDisplay,
+      refined: best.internal !== draftInternal,
+      sessionId: draftSessionId,
+      scores,
+    };
   } catch (e) {
-    const hint = diagnoseFailure(e as ExecError);
-    console.error("respondMention failed", {
-      error: (e as ExecError)?.message,
-      stderr: (e as ExecError)?.stderr,
-      stdout: (e as ExecError)?.stdout,
+    if (isCancelledError(e)) {
+      return { ok: false, text: CANCELLED_TEXT, cancelled: true };
+    }
+    const hint = describeModelError(e);
+    logger.error("respondMention failed", {
+      kind: toModelError(e).kind,
+      error: (e as ModelError)?.message,
+      stderr: (e as ModelError)?.stderr,
+      stdout: (e as ModelError)?.stdout,
     });
     return {
       ok: false,
       text: `⚠️ 返信を生成できませんでした。原因: ${hint}`,
       debug: {
-        error: (e as ExecError)?.message,
-        stderr: (e as ExecError)?.stderr,
+        error: (e as ModelError)?.message,
+        stderr: (e as ModelError)?.stderr,
+      },
+    };
+  } finally {
+    metrics.mentionRefinePasses.observe(refinePasses);
+  }
+}
+
+export async function deepenMention({
+  slackText,
+  userText,
+  workdir,
+  slackContext,
+  currentText,
+  onProgress,
+  backend = getModelBackend(),
+  signal,
+  history,
+  modelOptions,
+  attachments,
+  repo = null,
+}: {
+  slackText: string;
+  // What the requester wrote themselves when slackText is a canned request
+  // (the message shortcut); the reply language follows it, else their Slack
+  // locale. Unset for ordinary requests.
+  userText?: string;
+  workdir: string;
+  slackContext: SlackContext | null;
+  currentText: string;
+  onProgress?: (payload: ProgressPayload) => void;
+  backend?: ModelBackend;
+  signal?: AbortSignal;
+  history?: ConversationTurn[];
+  modelOptions?: ModelOptions;
+  attachments?: MentionAttachments;
+  // The repository in workdir; null when the run may not see one.
+  repo?: RepoContext | null;
+}): Promise<MentionResult> {
+  ({ slackText, slackContext, history, attachments } = redactPromptInput(
+    { slackText, slackContext, history, attachments },
+    "deepen",
+  ));
+  const language = resolveLanguage(slackText, userText, slackContext);
+  const { locale } = language;
+  const display: DisplayOptions = {
+    allowBroadcast: BROADCAST_REQUEST_PATTERN.test(slackText),
+    locale,
+  };
+  try {
+    const prompt = buildRefinePrompt({
+      language,
+      repo,
+      slackText,
+      slackContext: await packSlackContext({
+        slackText,
+        slackContext,
+        history,
+        summarize: createThreadSummarizer({
+          locale,
+          backend,
+          workdir,
+          signal,
+          modelOptions,
+        }),
+        signal,
+      }),
+      draft: currentText,
+      meta: buildMeta(1, 1),
+      focus: "depth",
+      history,
+      attachments,
+    });
+    const { text } = await backend.run({
+      prompt,
+      purpose: "deepen",
+      cwd: workdir,
+      signal,
+      options: modelOptions,
+      images: attachments?.images,
+      onEvent: createStreamHandler({
+        pass: 1,
+        totalPasses: 1,
+        currentText,
+        streamText: false,
+        display,
+        onProgress,
+      }),
+    });
+    const deepened = toDisplayText(text, display, "deepen");
+    if (!deepened) {
+      throw createModelError("model_error", "Empty response from model.");
+    }
+    return { ok: true, text: deepened, refined: true };
+  } catch (e) {
+    if (isCancelledError(e)) {
+      return { ok: true, text: currentText, refined: false, cancelled: true };
+    }
+    const hint = describeModelError(e);
+    logger.error("deepenMention failed", {
+      kind: toModelError(e).kind,
+      error: (e as ModelError)?.message,
+      stderr: (e as ModelError)?.stderr,
+      stdout: (e as ModelError)?.stdout,
+    });
+    return {
+      ok: false,
+      text: `⚠️ 深掘りに失敗しました。原因: ${hint}`,
+      debug: {
+        error: (e as ModelError)?.message,
+        stderr: (e as ModelError)?.stderr,
       },
     };
   }
@@ -0,0 +1,349 @@
+import { readdirSync, readFileSync, watch, type FSWatcher } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { logger } from "../integrations/logger.js";
+
+// Prompts live in PROMPTS_DIR/<locale>/<name>.txt. A template is plain text
+// with `{{name}}` placeholders, `{{#if name}} ... {{else}} ... {{/if}}`
+// blocks and `{{! comments }}`. Each template may only use the variables
+// declared for it below; anything else fails validation when loading.
+export type PromptVariables = {
+  common: {
+    // e.g. "en" or "fr-FR"; only set when the request text is canned.
+    replyLanguage: string;
+    repoName: string;
+    repoDescription: string;
+    docs: string;
+    readOnly: boolean;
+  };
+  mention: {
+    pass: number;
+    totalPasses: number;
+    targetPercent: number;
+    isFinal: boolean;
+    common: string;
+    input: string;
+  };
+  refine: {
+    pass: number;
+    totalPasses: number;
+    targetPercent: number;
+    isFinal: boolean;
+    gaps: string;
+    depth: boolean;
+    common: string;
+    input: string;
+  };
+  input: {
+    history: string;
+    slackText: string;
+    slackContext: string;
+    images: number;
+    files: string;
+    draft: string;
+  };
+  judge: { common: string; input: string; answer: string };
+  attachment: { name: string; truncated: boolean; text: string };
+  thread_summary: { messages: string };
+  digest: {
+    channelName: string;
+    hours: number;
+    omitted: number;
+    messages: string;
+  };
+  hangout: {
+    slackText: string;
+    conditions: string;
+    context: string;
+    schema: string;
+  };
+  // Re-asks a structured command after its output failed validation.
+  repair: { base: string; errors: string; previousOutput: string };
+};
+
+export type PromptName = keyof PromptVariables;
+
+const PROMPT_VARIABLES: {
+  [K in PromptName]: Array<keyof PromptVariables[K] & string>;
+} = {
+  common: [
+    "replyLanguage",
+    "repoName",
+    "repoDescription",
+    "docs",
+    "readOnly",
+  ],
+  mention: [
+    "pass",
+    "totalPasses",
+    "targetPercent",
+    "isFinal",
+    "common",
+    "input",
+  ],
+  refine: [
+    "pass",
+    "totalPasses",
+    "targetPercent",
+    "isFinal",
+    "gaps",
+    "depth",
+    "common",
+    "input",
+  ],
+  input: ["history", "slackText", "slackContext", "images", "files", "draft"],
+  judge: ["common", "input", "answer"],
+  attachment: ["name", "truncated", "text"],
+  thread_summary: ["messages"],
+  digest: ["channelName", "hours", "omitted", "messages"],
+  hangout: ["slackText", "conditions", "context", "schema"],
+  repair: ["base", "errors", "previousOutput"],
+};
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "var"; name: string }
+  | { type: "if"; name: string; then: TemplateNode[]; else: TemplateNode[] };
+
+// locale -> template name -> parsed template
+export type PromptTemplates = Map<string, Map<PromptName, TemplateNode[]>>;
+
+const TAG_PATTERN = /{{\s*([#/!]?)([^}]*?)\s*}}/g;
+// Block tags and comments alone on a line take the whole line with them.
+const STANDALONE_PATTERN =
+  /^[ \t]*({{\s*(?:#if\s+\w+|else|\/if|![^}]*)\s*}})[ \t]*\r?\n/gm;
+
+export function getPromptsDir() {
+  return process.env.PROMPTS_DIR
+    ? path.resolve(process.env.PROMPTS_DIR)
+    : fileURLToPath(new URL("../../prompts", import.meta.url));
+}
+
+export function getDefaultPromptLocale() {
+  return process.env.PROMPT_LOCALE || "ja";
+}
+
+function lineOf(source: string, index: number) {
+  return source.slice(0, index).split("\n").length;
+}
+
+export function parseTemplate(
+  source: string,
+  variables: string[],
+): { nodes: TemplateNode[]; errors: string[] } {
+  const text = source.replace(STANDALONE_PATTERN, "$1");
+  const errors: string[] = [];
+  const root: TemplateNode[] = [];
+  // Open if-blocks; nodes are appended to the top entry's current branch.
+  const stack: Array<{
+    node: TemplateNode & { type: "if" };
+    inElse: boolean;
+    line: number;
+  }> = [];
+  const target = () => {
+    const top = stack.at(-1);
+    if (!top) return root;
+    return top.inElse ? top.node.else : top.node.then;
+  };
+  const checkName = (name: string, line: number) => {
+    if (!variables.includes(name)) {
+      errors.push(`line ${line}: unknown variable "${name}"`);
+    }
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const [tag, sigil, body] = match;
+    const line = lineOf(text, match.index);
+    if (match.index > last) {
+      target().push({ type: "text", text: text.slice(last, match.index) });
+    }
+    last = match.index + tag.length;
+    if (sigil === "!") continue;
+    if (sigil === "#") {
+      const [keyword, name, ...rest] = body.split(/\s+/);
+      if (keyword !== "if" || !name || rest.length) {
+        errors.push(`line ${line}: unsupported block "${tag}"`);
+        continue;
+      }
+      checkName(name, line);
+      const node = { type: "if" as const, name, then: [], else: [] };
+      target().push(node);
+      stack.push({ node, inElse: false, line });
+    } else if (sigil === "/") {
+      if (body !== "if") {
+        errors.push(`line ${line}: unsupported block end "${tag}"`);
+      } else if (!stack.pop()) {
+        errors.push(`line ${line}: {{/if}} without {{#if}}`);
+      }
+    } else if (body === "else") {
+      const top = stack.at(-1);
+      if (!top || top.inElse) {
+        errors.push(`line ${line}: {{else}} outside of {{#if}}`);
+      } else {
+        top.inElse = true;
+      }
+    } else if (/^\w+$/.test(body)) {
+      checkName(body, line);
+      target().push({ type: "var", name: body });
+    } else {
+      errors.push(`line ${line}: invalid tag "${tag}"`);
+    }
+  }
+  if (last < text.length) {
+    target().push({ type: "text", text: text.slice(last) });
+  }
+  for (const open of stack) {
+    errors.push(`line ${open.line}: {{#if ${open.node.name}}} is not closed`);
+  }
+  return { nodes: root, errors };
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  vars: Record<string, unknown>,
+): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") return node.text;
+      const value = vars[node.name];
+      if (node.type === "var") return value === undefined ? "" : String(value);
+      return renderNodes(value ? node.then : node.else, vars);
+    })
+    .join("");
+}
+
+// Reads and validates every template. The default locale must provide all
+// of them; other locales may leave some out and fall back to it. Throws with
+// every problem found, so a broken edit is reported in one go.
+export function loadPromptTemplates(
+  dir = getPromptsDir(),
+  defaultLocale = getDefaultPromptLocale(),
+): PromptTemplates {
+  const templates: PromptTemplates = new Map();
+  const errors: string[] = [];
+  const names = Object.keys(PROMPT_VARIABLES) as PromptName[];
+  let locales: string[] = [];
+  try {
+    locales = readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name);
+  } catch (e) {
+    errors.push(`${dir}: ${e?.message}`);
+  }
+  for (const locale of locales) {
+    const files = new Map<PromptName, TemplateNode[]>();
+    for (const file of readdirSync(path.join(dir, locale))) {
+      if (!file.endsWith(".txt")) continue;
+      const name = file.slice(0, -".txt".length) as PromptName;
+      const filePath = path.join(dir, locale, file);
+      if (!PROMPT_VARIABLES[name]) {
+        errors.push(`${filePath}: unknown prompt "${name}"`);
+        continue;
+      }
+      const parsed = parseTemplate(
+        readFileSync(filePath, "utf-8"),
+        PROMPT_VARIABLES[name],
+      );
+      errors.push(...parsed.errors.map((error) => `${filePath} ${error}`));
+      files.set(name, parsed.nodes);
+    }
+    templates.set(locale, files);
+  }
+  const defaults = templates.get(defaultLocale);
+  for (const name of names) {
+    if (!defaults?.has(name)) {
+      errors.push(`${path.join(dir, defaultLocale, `${name}.txt`)} is missing`);
+    }
+  }
+  if (errors.length) {
+    throw new Error(`invalid prompt templates:\n${errors.join("\n")}`);
+  }
+  return templates;
+}
+
+let current: PromptTemplates | null = null;
+
+function getPromptTemplates() {
+  if (!current) current = loadPromptTemplates();
+  return current;
+}
+
+export function renderPrompt<K extends PromptName>(
+  name: K,
+  locale: string,
+  vars: PromptVariables[K],
+): string {
+  const templates = getPromptTemplates();
+  const nodes =
+    templates.get(locale)?.get(name) ||
+    templates.get(getDefaultPromptLocale()).get(name);
+  return renderNodes(nodes, vars).trim();
+}
+
+// Loads the templates now, so a broken one stops startup, and reloads them
+// whenever a file changes. A reload that fails validation is logged and the
+// previous templates stay in use.
+export function watchPromptTemplates(dir = getPromptsDir()): FSWatcher {
+  current = loadPromptTemplates(dir);
+  let timer: NodeJS.Timeout | null = null;
+  const reload = () => {
+    timer = null;
+    try {
+      current = loadPromptTemplates(dir);
+      logger.info("prompt templates reloaded", {
+        locales: [...current.keys()],
+      });
+    } catch (e) {
+      logger.error("prompt templates reload failed", { error: e?.message });
+    }
+  };
+  const watcher = watch(dir, { recursive: true }, () => {
+    // Editors write a file in several steps; reload once they are done.
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(reload, 300);
+  });
+  watcher.on("error", (e) =>
+    logger.warn("prompt template watch failed", { error: e?.message }),
+  );
+  watcher.unref();
+  return watcher;
+}
+
+const KANA_PATTERN = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const HAN_PATTERN = /\p{Script=Han}/u;
+const LATIN_WORD_PATTERN = /[A-Za-z]{2,}/g;
+
+// Guesses the language of a message: kana means Japanese, a few Latin words
+// and no kanji mean English. Mentions, links and code do not count.
+export function detectTextLocale(text: string): string | null {
+  const prose = (text || "")
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`[^`]*`/g, " ")
+    .replace(/<[^>]*>/g, " ");
+  if (KANA_PATTERN.test(prose)) return "ja";
+  const words = prose.match(LATIN_WORD_PATTERN) || [];
+  if (words.length >= 2 && !HAN_PATTERN.test(prose)) return "en";
+  return null;
+}
+
+// The locale to prompt in: the language of the request itself, else the
+// requester's Slack locale (e.g. "en-US"), else PROMPT_LOCALE. Only locales
+// that have templates are picked.
+export function resolvePromptLocale({
+  text,
+  userLocale,
+}: {
+  text?: string;
+  userLocale?: string;
+}): string {
+  const templates = getPromptTemplates();
+  const candidates = [
+    text ? detectTextLocale(text) : null,
+    userLocale?.split(/[-_]/)[0].toLowerCase(),
+  ];
+  return (
+    candidates.find((locale) => locale && templates.has(locale)) ||
+    getDefaultPromptLocale()
+  );
+}
@@ -0,0 +1,284 @@
+import { existsSync, readFileSync, statSync } from "node:fs";
+import path from "node:path";
+import type { RepoSandbox } from "../integrations/model_backend.js";
+
+// Local repository checkouts the agent can answer about, read from the JSON
+// file at REPOS_FILE. Without one, the default workdir is the only repo.
+export type RepoEntry = {
+  id: string;
+  name: string;
+  path: string;
+  description?: string;
+  // Documentation paths relative to the checkout, e.g. "docs/".
+  docs: string[];
+  channels: string[];
+  keywords: string[];
+  sandbox: RepoSandbox;
+};
+
+export type RepoRegistry = {
+  repos: RepoEntry[];
+  defaultRepo: RepoEntry | null;
+};
+
+// What the prompt is told about the repository of a run.
+export type RepoContext = {
+  id: string;
+  name: string;
+  description?: string;
+  docs: string[];
+  readOnly: boolean;
+};
+
+const ID_PATTERN = /^[\w.-]{1,32}$/;
+const SANDBOXES: RepoSandbox[] = ["read-only", "workspace-write"];
+// "[api] how does auth work?" picks the repo with id or keyword "api".
+const TAG_PATTERN = /^\[([\w.-]{1,32})\](?:\s|　)*/;
+
+function isDirectory(dir: string) {
+  try {
+    return statSync(dir).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function toStringList(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    return null;
+  }
+  return value.map((v) => v.trim()).filter(Boolean);
+}
+
+function buildImplicitRepo(id: string, dir: string): RepoEntry {
+  return {
+    id,
+    name: path.basename(dir),
+    path: dir,
+    docs: isDirectory(path.join(dir, "docs")) ? ["docs/"] : [],
+    channels: [],
+    keywords: [],
+    sandbox: "read-only",
+  };
+}
+
+function validateRepo(value: unknown, i: number, errors: string[]) {
+  const at = `repos[${i}]`;
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    errors.push(`${at} must be an object`);
+    return null;
+  }
+  const repo = value as Record<string, unknown>;
+  const id = typeof repo.id === "string" ? repo.id.trim() : "";
+  if (!ID_PATTERN.test(id)) {
+    errors.push(`${at}.id must be 1-32 letters, digits, "_", "." or "-"`);
+  }
+  const dir = typeof repo.path === "string" ? repo.path : "";
+  if (!path.isAbsolute(dir) || !isDirectory(dir)) {
+    errors.push(`${at}.path must be an existing absolute directory`);
+  }
+  const sandbox = repo.sandbox ?? "read-only";
+  if (!SANDBOXES.includes(sandbox as RepoSandbox)) {
+    errors.push(`${at}.sandbox must be one of ${SANDBOXES.join(", ")}`);
+  }
+  const docs = toStringList(repo.docs);
+  const channels = toStringList(repo.channels);
+  const keywords = toStringList(repo.keywords);
+  if (!docs) errors.push(`${at}.docs must be an array of strings`);
+  if (!channels) errors.push(`${at}.channels must be an array of strings`);
+  if (!keywords) errors.push(`${at}.keywords must be an array of strings`);
+  for (const doc of docs || []) {
+    if (path.isAbsolute(doc) || doc.split(/[\\/]/).includes("..")) {
+      errors.push(`${at}.docs must stay inside the checkout: ${doc}`);
+    } else if (dir && !existsSync(path.join(dir, doc))) {
+      errors.push(`${at}.docs not found: ${path.join(dir, doc)}`);
+    }
+  }
+  return {
+    id,
+    name:
+      typeof repo.name === "string" && repo.name.trim()
+        ? repo.name.trim()
+        : path.basename(dir),
+    path: dir,
+    description:
+      typeof repo.description === "string" && repo.description.trim()
+        ? repo.description.trim()
+        : undefined,
+    docs: docs || [],
+    channels: channels || [],
+    keywords: (keywords || []).map((k) => k.toLowerCase()),
+    sandbox: sandbox as RepoSandbox,
+  };
+}
+
+// Reads and checks the registry. Every problem is reported at once, and a
+// broken file stops startup instead of sending runs to the wrong checkout.
+export function loadRepoRegistry(
+  filePath = process.env.REPOS_FILE,
+  fallbackDir = process.env.PLANNER_REPO_DIR ||
+    process.env.CODEX_WORKDIR ||
+    process.cwd(),
+): RepoRegistry {
+  if (!filePath) {
+    const repo = buildImplicitRepo("default", path.resolve(fallbackDir));
+    return { repos: [repo], defaultRepo: repo };
+  }
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, "utf-8"));
+  } catch (e) {
+    throw new Error(`invalid repo registry ${filePath}: ${e?.message}`);
+  }
+  const errors: string[] = [];
+  const repos = Array.isArray(parsed?.repos)
+    ? parsed.repos
+        .map((repo, i) => validateRepo(repo, i, errors))
+        .filter(Boolean)
+    : [];
+  if (!Array.isArray(parsed?.repos)) errors.push("repos must be an array");
+
+  // Ids and keywords share one namespace; each of them and each channel
+  // must point at exactly one repo.
+  const owners = new Map<string, string>();
+  const claim = (kind: string, key: string, id: string) => {
+    const owner = owners.get(`${kind}:${key}`);
+    if (owner) {
+      errors.push(`${kind} "${key}" is used by both ${owner} and ${id}`);
+    }
+    owners.set(`${kind}:${key}`, id);
+  };
+  for (const repo of repos) {
+    claim("keyword", repo.id.toLowerCase(), repo.id);
+  }
+  for (const repo of repos) {
+    for (const keyword of repo.keywords) {
+      if (keyword === repo.id.toLowerCase()) continue;
+      claim("keyword", keyword, repo.id);
+    }
+    for (const channel of repo.channels) claim("channel", channel, repo.id);
+  }
+
+  const defaultId = parsed?.default;
+  const defaultRepo =
+    defaultId === undefined
+      ? null
+      : repos.find((repo) => repo.id === defaultId) || null;
+  if (defaultId !== undefined && !defaultRepo) {
+    errors.push(`default "${String(defaultId)}" is not a repo id`);
+  }
+  if (errors.length) {
+    throw new Error(
+      `invalid repo registry ${filePath}:\n${errors.join("\n")}`,
+    );
+  }
+  return { repos, defaultRepo };
+}
+
+let registry: RepoRegistry | null = null;
+
+export function getRepoRegistry(): RepoRegistry {
+  if (!registry) registry = loadRepoRegistry();
+  return registry;
+}
+
+// By id or keyword, case-insensitively.
+export function findRepo(registry: RepoRegistry, key: string) {
+  const wanted = key.toLowerCase();
+  return (
+    registry.repos.find(
+      (repo) =>
+        repo.id.toLowerCase() === wanted || repo.keywords.includes(wanted),
+    ) || null
+  );
+}
+
+export function findRepoByPath(registry: RepoRegistry, dir: string) {
+  const wanted = path.resolve(dir);
+  return registry.repos.find((repo) => path.resolve(repo.path) === wanted);
+}
+
+// Splits a leading "[keyword]" off a request. Tags that match no repo are
+// left in the text, so "[WIP] ..." still reads as written.
+export function parseRepoTag(
+  registry: RepoRegistry,
+  text: string,
+): { repo: RepoEntry | null; text: string } {
+  const match = TAG_PATTERN.exec(text || "");
+  const repo = match ? findRepo(registry, match[1]) : null;
+  return repo
+    ? { repo, text: text.slice(match[0].length) }
+    : { repo: null, text };
+}
+
+// The repo for a run, most specific first: a tag in the request, the repo
+// the thread started with, the channel's /agent-config workdir, the
+// registry's channel mapping, then the default. A workdir that is not in
+// the registry is used as an ad-hoc read-only repo.
+export function selectRepo(
+  registry: RepoRegistry,
+  {
+    channelId,
+    text,
+    threadRepoId,
+    channelWorkdir,
+  }: {
+    channelId: string;
+    text?: string;
+    threadRepoId?: string;
+    channelWorkdir?: string;
+  },
+): { repo: RepoEntry | null; text: string } {
+  const tagged = parseRepoTag(registry, text || "");
+  if (tagged.repo) return tagged;
+  const threadRepo = threadRepoId
+    ? registry.repos.find((repo) => repo.id === threadRepoId)
+    : null;
+  const channelRepo = channelWorkdir
+    ? findRepoByPath(registry, channelWorkdir) ||
+      buildImplicitRepo("channel", channelWorkdir)
+    : null;
+  return {
+    repo:
+      threadRepo ||
+      channelRepo ||
+      registry.repos.find((repo) => repo.channels.includes(channelId)) ||
+      registry.defaultRepo,
+    text: tagged.text,
+  };
+}
+
+export function toRepoContext(repo: RepoEntry): RepoContext {
+  return {
+    id: repo.id,
+    name: repo.name,
+    description: repo.description,
+    docs: repo.docs,
+    readOnly: repo.sandbox === "read-only",
+  };
+}
+
+export function describeRepos(registry: RepoRegistry): string {
+  if (!registry.repos.length) {
+    return "📚 登録されているリポジトリはありません。";
+  }
+  const lines = registry.repos.map((repo) => {
+    const keys = [repo.id, ...repo.keywords].map((k) => `\`[${k}]\``);
+    const details = [
+      repo.description,
+      repo.channels.length
+        ? `チャンネル: ${repo.channels.map((c) => `<#${c}>`).join(" ")}`
+        : "",
+      repo.docs.length ? `ドキュメント: ${repo.docs.join(", ")}` : "",
+      repo.sandbox === "read-only" ? "読み取り専用" : "書き込み可",
+      repo === registry.defaultRepo ? "デフォルト" : "",
+    ].filter(Boolean);
+    return `• *${repo.name}* ${keys.join(" ")}\n   ${details.join(" / ")}`;
+  });
+  return [
+    "📚 回答に使えるリポジトリ",
+    ...lines,
+    "メンションの先頭に `[キーワード]` を付けるとそのリポジトリについて答えます。",
+  ].join("\n");
+}
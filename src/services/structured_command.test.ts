@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createFakeBackend } from "../integrations/fake_model_client.js";
+import type {
+  FakeResponse,
+  ModelBackend,
+  ModelRequest,
+} from "../integrations/model_backend.js";
+import { CANCELLED_TEXT } from "../integrations/model_errors.js";
+import {
+  defineStructuredCommand,
+  runStructuredCommand,
+} from "./structured_command.js";
+
+type Answer = { answer: string; count: number };
+
+const command = defineStructuredCommand<string, Answer>({
+  name: "/test",
+  parseArgs: (text) => text,
+  thinkingText: "考え中",
+  usage: "/test 質問",
+  schema: {
+    type: "object",
+    required: ["answer", "count"],
+    properties: {
+      answer: { type: "string", minLength: 1 },
+      count: { type: "integer", minimum: 1 },
+    },
+  },
+  validate: (output) =>
+    output.count > 3 ? ["count must be at most 3"] : [],
+  buildPrompt: ({ args, schema }) => `質問: ${args}\n${schema}`,
+  format: (output) => ({ text: `${output.answer} x${output.count}` }),
+});
+
+function scriptedBackend(responses: FakeResponse[]) {
+  const fake = createFakeBackend({ kind: "fake", responses });
+  const requests: ModelRequest[] = [];
+  const backend: ModelBackend = {
+    name: "fake",
+    run: (request) => {
+      requests.push(request);
+      return fake.run(request);
+    },
+  };
+  return { backend, requests };
+}
+
+function run(
+  backend: ModelBackend,
+  options: Partial<Parameters<typeof runStructuredCommand>[0]> = {},
+) {
+  return runStructuredCommand({
+    command,
+    args: "おすすめは？",
+    slackText: "おすすめは？",
+    context: { channelId: "C1", userId: "U1" },
+    workdir: process.cwd(),
+    slackContext: null,
+    backend,
+    ...options,
+  });
+}
+
+test("formats a valid first answer", async () => {
+  const { backend, requests } = scriptedBackend([
+    '```json\n{"answer": "A", "count": 2}\n```',
+  ]);
+  assert.deepEqual(await run(backend), { ok: true, text: "A x2" });
+  assert.deepEqual(requests.map((r) => r.purpose), ["plan"]);
+});
+
+test("repairs invalid answers with the validation errors", async () => {
+  const { backend, requests } = scriptedBackend([
+    "JSON は出せません",
+    '{"answer": "A", "count": 5}',
+    '{"answer": "A", "count": 3}',
+  ]);
+  assert.deepEqual(await run(backend), { ok: true, text: "A x3" });
+  assert.deepEqual(
+    requests.map((r) => r.purpose),
+    ["plan", "repair", "repair"],
+  );
+  assert.match(requests[1].prompt, /output did not contain a JSON object/);
+  assert.match(requests[2].prompt, /count must be at most 3/);
+  assert.match(requests[2].prompt, /質問: おすすめは？/);
+});
+
+test("gives up after the repair passes", async () => {
+  const { backend, requests } = scriptedBackend(['{"answer": ""}']);
+  const result = await run(backend);
+  assert.equal(result.ok, false);
+  assert.match(result.text, /^⚠️ 結果を生成できませんでした。/);
+  assert.match(result.text, /\/test 質問/);
+  assert.equal(requests.length, 3);
+});
+
+test("stops at an execution error", async () => {
+  const { backend, requests } = scriptedBackend([
+    "not json",
+    { error: "backend down" },
+  ]);
+  const result = await run(backend);
+  assert.equal(result.ok, false);
+  assert.equal(requests.length, 2);
+});
+
+test("turns a failing format into an error reply", async () => {
+  const { backend } = scriptedBackend(['{"answer": "A", "count": 1}']);
+  const failing = {
+    ...command,
+    format: () => {
+      throw new Error("format broke");
+    },
+  };
+  const result = await run(backend, { command: failing });
+  assert.equal(result.ok, false);
+  assert.match(result.text, /^⚠️ 結果を生成できませんでした。/);
+});
+
+test("reports a cancelled run", async () => {
+  const { backend } = scriptedBackend([{ text: "{}", delayMs: 5000 }]);
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 20);
+  assert.deepEqual(await run(backend, { signal: controller.signal }), {
+    ok: false,
+    text: CANCELLED_TEXT,
+    cancelled: true,
+  });
+});
@@ -0,0 +1,226 @@
+import type { KnownBlock } from "@slack/web-api";
+import {
+  CANCELLED_TEXT,
+  describeModelError,
+  INVALID_OUTPUT_TEXT,
+  isCancelledError,
+  toModelError,
+  type ModelError,
+} from "../integrations/model_errors.js";
+import {
+  getModelBackend,
+  type ModelBackend,
+  type ModelOptions,
+} from "../integrations/model_backend.js";
+import { logger } from "../integrations/logger.js";
+import { redactPromptInput } from "../integrations/redaction.js";
+import type { SlackContext } from "../integrations/slack_api.js";
+import { renderPrompt, resolvePromptLocale } from "./prompt_templates.js";
+import {
+  extractJsonObject,
+  validateJsonSchema,
+  type JsonSchema,
+  type JsonValidation,
+} from "./structured_output.js";
+
+export type StructuredMessage = {
+  text: string;
+  blocks?: KnownBlock[];
+  // Called with the ts of the posted message, e.g. to track a poll.
+  onPosted?: (ts: string) => Promise<void>;
+};
+
+export type StructuredCommandContext = {
+  channelId: string;
+  userId: string;
+};
+
+// A slash command answered with one JSON object from the model. A command
+// only supplies what is specific to it; the runner and the Slack handler
+// take care of queueing, the "考え中" message, validation, repair passes
+// and error replies.
+export type StructuredCommand<Args, Output> = {
+  // The slash command, e.g. "/nomikai".
+  name: string;
+  parseArgs: (text: string) => Args;
+  // "候補を考え中" is shown as "🤔 <@user> 候補を考え中...".
+  thinkingText: string;
+  // Extra lines under the thinking message, e.g. the parsed conditions.
+  describeArgs?: (args: Args) => string;
+  // Example invocation shown when no valid answer could be generated.
+  usage: string;
+  schema: JsonSchema;
+  // Checks the schema cannot express. Messages are fed back to the model.
+  validate?: (output: Output) => string[];
+  buildPrompt: (input: {
+    locale: string;
+    slackText: string;
+    args: Args;
+    slackContext: SlackContext | null;
+    schema: string;
+  }) => string;
+  format: (
+    output: Output,
+    context: StructuredCommandContext,
+  ) => StructuredMessage | Promise<StructuredMessage>;
+};
+
+// Keeps Args and Output inferred for a command object.
+export function defineStructuredCommand<Args, Output>(
+  command: StructuredCommand<Args, Output>,
+) {
+  return command;
+}
+
+export type StructuredCommandResult =
+  | ({ ok: true } & StructuredMessage)
+  | { ok: false; text: string; cancelled?: boolean };
+
+const MAX_REPAIRS = 2;
+const REPAIR_OUTPUT_LIMIT = 4000;
+
+function buildRepairPrompt(
+  locale: string,
+  basePrompt: string,
+  previousOutput: string,
+  errors: string[],
+) {
+  return renderPrompt("repair", locale, {
+    base: basePrompt,
+    errors: errors.map((e) => `- ${e}`).join("\n"),
+    previousOutput: previousOutput.slice(0, REPAIR_OUTPUT_LIMIT),
+  });
+}
+
+function parseOutput<Output>(
+  output: string,
+  schema: JsonSchema,
+  validate?: (output: Output) => string[],
+): JsonValidation<Output> {
+  const parsed = extractJsonObject(output);
+  if (parsed.ok === false) return parsed;
+  const schemaErrors = validateJsonSchema(parsed.value, schema);
+  if (schemaErrors.length) return { ok: false, errors: schemaErrors };
+  const value = parsed.value as Output;
+  const errors = validate?.(value) || [];
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}
+
+type RunInput<Args, Output> = {
+  command: StructuredCommand<Args, Output>;
+  args: Args;
+  slackText: string;
+  context: StructuredCommandContext;
+  workdir: string;
+  slackContext: SlackContext | null;
+  backend?: ModelBackend;
+  signal?: AbortSignal;
+  modelOptions?: ModelOptions;
+};
+
+// Never rejects: a failure anywhere, including a command's own buildPrompt
+// or format, becomes an error reply.
+export async function runStructuredCommand<Args, Output>(
+  input: RunInput<Args, Output>,
+): Promise<StructuredCommandResult> {
+  try {
+    return await generate(input);
+  } catch (e) {
+    if (isCancelledError(e)) {
+      return { ok: false, text: CANCELLED_TEXT, cancelled: true };
+    }
+    logger.error("structured command failed", {
+      command: input.command.name,
+      error: e?.message,
+    });
+    return {
+      ok: false,
+      text: `⚠️ 結果を生成できませんでした。\n原因: ${describeModelError(e)}`,
+    };
+  }
+}
+
+async function generate<Args, Output>({
+  command,
+  args,
+  slackText,
+  context,
+  workdir,
+  slackContext,
+  backend = getModelBackend(),
+  signal,
+  modelOptions,
+}: RunInput<Args, Output>): Promise<StructuredCommandResult> {
+  const redacted = redactPromptInput({ slackText, slackContext }, "plan");
+  const locale = resolvePromptLocale({
+    text: slackText,
+    userLocale: slackContext?.request_user?.locale,
+  });
+  const prompt1 = command.buildPrompt({
+    locale,
+    slackText: redacted.slackText,
+    args,
+    slackContext: redacted.slackContext,
+    schema: JSON.stringify(command.schema, null, 2),
+  });
+
+  // Attempts after the first are repair prompts that quote the validation
+  // errors. Execution failures end the loop: transient ones were already
+  // retried by the backend.
+  const attempts: Array<{ error?: string; validationErrors?: string[] }> = [];
+  let prompt = prompt1;
+  let lastExecError: ModelError | null = null;
+  for (let attempt = 0; attempt <= MAX_REPAIRS; attempt += 1) {
+    let output: string;
+    try {
+      ({ text: output } = await backend.run({
+        prompt,
+        purpose: prompt === prompt1 ? "plan" : "repair",
+        cwd: workdir,
+        signal,
+        options: modelOptions,
+      }));
+    } catch (e) {
+      if (isCancelledError(e)) {
+        return { ok: false, text: CANCELLED_TEXT, cancelled: true };
+      }
+      lastExecError = toModelError(e);
+      attempts.push({ error: lastExecError.message });
+      break;
+    }
+    const result = parseOutput(output, command.schema, command.validate);
+    if (result.ok === true) {
+      return { ok: true, ...(await command.format(result.value, context)) };
+    }
+    attempts.push({ validationErrors: result.errors });
+    prompt = buildRepairPrompt(locale, prompt1, output, result.errors);
+  }
+
+  const validationErrors = attempts
+    .map((a) => a.validationErrors)
+    .filter(Boolean)
+    .at(-1);
+  const hint = lastExecError
+    ? describeModelError(lastExecError)
+    : INVALID_OUTPUT_TEXT;
+  logger.error("structured command failed", {
+    command: command.name,
+    kind: lastExecError?.kind ?? "invalid_output",
+    attempts: attempts.length,
+    errors: attempts.map((a) => a.error ?? a.validationErrors.join("; ")),
+    stderr: lastExecError?.stderr,
+    stdout: lastExecError?.stdout,
+  });
+  const debugEnabled =
+    process.env.PLANNER_DEBUG === "1" ||
+    process.env.PLANNER_DEBUG === "true";
+  const debugDetails = validationErrors
+    ? `\n検証エラー:\n${validationErrors.map((e) => `• \`${e}\``).join("\n")}`
+    : "";
+  return {
+    ok: false,
+    text: debugEnabled
+      ? `⚠️ 結果を生成できませんでした。\n原因: ${hint}${debugDetails}`
+      : `⚠️ 結果を生成できませんでした。条件を短くしてもう一度試してください。（例: \`${command.usage}\`）\n原因: ${hint}`,
+  };
+}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { extractJsonObject, validateJsonSchema } from "./structured_output.js";
+
+test("extracts a JSON object surrounded by prose or fences", () => {
+  assert.deepEqual(extractJsonObject('答えです:\n```json\n{"a": 1}\n```'), {
+    ok: true,
+    value: { a: 1 },
+  });
+});
+
+test("reports output without a valid JSON object", () => {
+  assert.deepEqual(extractJsonObject("no json here"), {
+    ok: false,
+    errors: ["output did not contain a JSON object"],
+  });
+  const broken = extractJsonObject("{ a: 1 }");
+  assert.equal(broken.ok, false);
+  assert.match(
+    (broken as { errors: string[] }).errors[0],
+    /^output is not valid JSON: /,
+  );
+});
+
+test("checks types, enums and array bounds", () => {
+  const schema = {
+    type: "object" as const,
+    required: ["kind", "items", "count"],
+    properties: {
+      kind: { type: "string" as const, enum: ["a", "b"] },
+      items: { type: "array" as const, minItems: 1, maxItems: 2 },
+      count: { type: "integer" as const, minimum: 1 },
+      note: { type: "string" as const },
+    },
+  };
+  const valid = { kind: "a", items: [1], count: 1 };
+  assert.deepEqual(validateJsonSchema(valid, schema), []);
+  const invalid = { kind: "c", items: [], count: 1.5 };
+  assert.deepEqual(validateJsonSchema(invalid, schema), [
+    'kind must be one of a, b, got "c"',
+    "items must contain at least 1 items, got 0",
+    "count must be an integer of at least 1, got 1.5",
+  ]);
+  assert.deepEqual(validateJsonSchema([], schema), [
+    "top level must be a JSON object",
+  ]);
+});
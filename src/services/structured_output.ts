@@ -0,0 +1,141 @@
+// The subset of JSON Schema used for model output. The schema is shown to
+// the model as is and checked against every answer.
+export type JsonSchema = {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  // Counted after trimming, so minLength 1 rejects whitespace.
+  minLength?: number;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  enum?: Array<string | number>;
+};
+
+export type JsonValidation<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+// Extracts the first top-level JSON object from model output, tolerating
+// prose or code fences around it.
+export function extractJsonObject(output: string): JsonValidation<unknown> {
+  const text = output || "";
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end === -1 || end <= start) {
+    return { ok: false, errors: ["output did not contain a JSON object"] };
+  }
+  try {
+    return { ok: true, value: JSON.parse(text.slice(start, end + 1)) };
+  } catch (e) {
+    return { ok: false, errors: [`output is not valid JSON: ${e?.message}`] };
+  }
+}
+
+function checkValue(
+  value: unknown,
+  schema: JsonSchema,
+  at: string,
+  errors: string[],
+) {
+  const name = at || "top level";
+  const hint = schema.description ? ` (${schema.description})` : "";
+  const got = `, got ${JSON.stringify(value) ?? "nothing"}`;
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${name} must be one of ${schema.enum.join(", ")}${got}`);
+    return;
+  }
+  switch (schema.type) {
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        errors.push(`${name} must be a JSON object`);
+        return;
+      }
+      const object = value as Record<string, unknown>;
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        if (object[key] === undefined && !schema.required?.includes(key)) {
+          continue;
+        }
+        checkValue(object[key], child, at ? `${at}.${key}` : key, errors);
+      }
+      return;
+    }
+    case "array": {
+      if (!Array.isArray(value)) {
+        errors.push(`${name} must be an array`);
+        return;
+      }
+      const { minItems, maxItems } = schema;
+      if (minItems !== undefined && minItems === maxItems) {
+        if (value.length !== minItems) {
+          errors.push(
+            `${name} must contain exactly ${minItems} items, got ${value.length}`,
+          );
+        }
+      } else if (minItems !== undefined && value.length < minItems) {
+        errors.push(
+          `${name} must contain at least ${minItems} items, got ${value.length}`,
+        );
+      } else if (maxItems !== undefined && value.length > maxItems) {
+        errors.push(
+          `${name} must contain at most ${maxItems} items, got ${value.length}`,
+        );
+      }
+      if (schema.items) {
+        value.forEach((item, i) =>
+          checkValue(item, schema.items, `${at}[${i}]`, errors),
+        );
+      }
+      return;
+    }
+    case "string": {
+      const minLength = schema.minLength ?? 0;
+      if (typeof value !== "string" || value.trim().length < minLength) {
+        const kind = minLength === 1 ? "a non-empty string" : "a string";
+        const length = minLength > 1 ? ` of ${minLength}+ characters` : "";
+        errors.push(`${name} must be ${kind}${length}${hint}`);
+      }
+      return;
+    }
+    case "number":
+    case "integer": {
+      const bounds = [
+        schema.exclusiveMinimum !== undefined
+          ? `greater than ${schema.exclusiveMinimum}`
+          : "",
+        schema.minimum !== undefined ? `of at least ${schema.minimum}` : "",
+      ].filter(Boolean);
+      const n =
+        typeof value === "number" && Number.isFinite(value) ? value : NaN;
+      const valid =
+        !Number.isNaN(n) &&
+        (schema.type === "number" || Number.isInteger(n)) &&
+        n > (schema.exclusiveMinimum ?? -Infinity) &&
+        n >= (schema.minimum ?? -Infinity);
+      if (!valid) {
+        const kind = schema.type === "integer" ? "an integer" : "a number";
+        const bound = bounds.length ? ` ${bounds.join(" and ")}` : "";
+        errors.push(`${name} must be ${kind}${bound}${hint}${got}`);
+      }
+      return;
+    }
+    case "boolean":
+      if (typeof value !== "boolean") {
+        errors.push(`${name} must be true or false${got}`);
+      }
+  }
+}
+
+// Checks a parsed value against a schema. Error messages are written for the
+// model, since they are fed back verbatim in repair prompts.
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+): string[] {
+  const errors: string[] = [];
+  checkValue(value, schema, "", errors);
+  return errors;
+}
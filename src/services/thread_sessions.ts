@@ -0,0 +1,137 @@
+import { createJsonStore } from "../integrations/json_store.js";
+
+export type SessionTurn = {
+  userId?: string;
+  prompt: string;
+  answer: string;
+  // Intermediate drafts from the refine loop, oldest first.
+  drafts: string[];
+  replyTs?: string;
+  at: number;
+};
+
+export type ThreadSession = {
+  channelId: string;
+  threadTs: string;
+  turns: SessionTurn[];
+  backendSessionId?: string;
+  // Registry id of the repository the thread is about; follow-ups without
+  // a [keyword] stay on it.
+  repoId?: string;
+  updatedAt: number;
+};
+
+export type ConversationTurn = {
+  role: "user" | "assistant";
+  text: string;
+};
+
+const MAX_TURNS = 20;
+const MAX_DRAFTS = 3;
+const DRAFT_CHAR_LIMIT = 2000;
+const HISTORY_TURNS = 6;
+const HISTORY_CHAR_LIMIT = 600;
+
+const store = createJsonStore<Record<string, ThreadSession>>(
+  "thread_sessions",
+  () => ({}),
+);
+
+function getTtlMs() {
+  const hours = Number.parseFloat(process.env.SESSION_TTL_HOURS || "");
+  return (Number.isFinite(hours) && hours > 0 ? hours : 72) * 60 * 60 * 1000;
+}
+
+const sessionKey = (channelId: string, threadTs: string) =>
+  `${channelId}:${threadTs}`;
+
+function isExpired(session: ThreadSession, now = Date.now()) {
+  return now - session.updatedAt > getTtlMs();
+}
+
+export function getSession(
+  channelId: string,
+  threadTs: string,
+): ThreadSession | null {
+  const session = store.read()[sessionKey(channelId, threadTs)];
+  if (!session || isExpired(session)) return null;
+  return session;
+}
+
+// Stores one answered mention. A turn with the same replyTs (regenerate or
+// deepen on the same message) replaces the earlier one instead of appending.
+export async function recordTurn({
+  channelId,
+  threadTs,
+  turn,
+  backendSessionId,
+  repoId,
+}: {
+  channelId: string;
+  threadTs: string;
+  turn: Omit<SessionTurn, "at">;
+  backendSessionId?: string;
+  repoId?: string;
+}) {
+  const key = sessionKey(channelId, threadTs);
+  await store.update((sessions) => {
+    const now = Date.now();
+    for (const [k, s] of Object.entries(sessions)) {
+      if (isExpired(s, now)) delete sessions[k];
+    }
+    const session: ThreadSession = sessions[key] || {
+      channelId,
+      threadTs,
+      turns: [],
+      updatedAt: now,
+    };
+    const entry: SessionTurn = {
+      ...turn,
+      drafts: turn.drafts
+        .slice(-MAX_DRAFTS)
+        .map((d) => d.slice(0, DRAFT_CHAR_LIMIT)),
+      at: now,
+    };
+    const existing = turn.replyTs
+      ? session.turns.findIndex((t) => t.replyTs === turn.replyTs)
+      : -1;
+    if (existing === -1) {
+      session.turns.push(entry);
+    } else {
+      session.turns[existing] = entry;
+    }
+    session.turns = session.turns.slice(-MAX_TURNS);
+    if (backendSessionId) session.backendSessionId = backendSessionId;
+    if (repoId) session.repoId = repoId;
+    session.updatedAt = now;
+    sessions[key] = session;
+  });
+}
+
+export async function resetSession(channelId: string, threadTs: string) {
+  await store.update((sessions) => {
+    delete sessions[sessionKey(channelId, threadTs)];
+  });
+}
+
+function clip(text: string) {
+  return text.length > HISTORY_CHAR_LIMIT
+    ? `${text.slice(0, HISTORY_CHAR_LIMIT)}…`
+    : text;
+}
+
+// Compact, role-tagged history of the latest turns for the prompt. Drafts are
+// kept in the store for debugging but never sent back to the model.
+export function buildConversationHistory(
+  session: ThreadSession | null,
+  { excludeReplyTs }: { excludeReplyTs?: string } = {},
+): ConversationTurn[] {
+  if (!session) return [];
+  return session.turns
+    .filter((t) => !excludeReplyTs || t.replyTs !== excludeReplyTs)
+    .slice(-HISTORY_TURNS)
+    .flatMap((t): ConversationTurn[] => [
+      { role: "user", text: clip(t.prompt) },
+      { role: "assistant", text: clip(t.answer) },
+    ]);
+}